@@ -0,0 +1,75 @@
+/**
+ * Benchmark: batch decoding vs. the per-item decodeMultipleTracks path
+ *
+ * Run with `npm run bench`. Exits with a non-zero code if the batch
+ * decoder is not faster than the per-item path.
+ */
+
+const { TrackEncoder, decodeMultipleTracks } = require('../dist');
+
+const TRACK_COUNT = 5000;
+const ROUNDS = 15;
+
+const encoder = new TrackEncoder();
+const trackInfos = Array.from({ length: TRACK_COUNT }, (_, i) => ({
+  identifier: `video${i.toString().padStart(6, '0')}`,
+  title: `Benchmark Track ${i} (Official Music Video)`,
+  author: `Artist ${i % 97}`,
+  length: 180000 + i,
+  uri: `https://www.youtube.com/watch?v=video${i.toString().padStart(6, '0')}`,
+  isSeekable: true,
+  isStream: false,
+  position: 0,
+  sourceName: 'youtube',
+  artworkUrl: `https://i.ytimg.com/vi/video${i}/maxresdefault.jpg`,
+  isrc: 'GBUM71202978',
+}));
+const encodedTracks = trackInfos.map(trackInfo => encoder.encodeTrack(trackInfo).track);
+
+/**
+ * Times each case once per round, interleaving the cases so machine noise
+ * affects them equally, and returns the median time of each case
+ */
+function measure(cases) {
+  const labels = Object.keys(cases);
+  const times = Object.fromEntries(labels.map(label => [label, []]));
+
+  // Warm up before timing
+  labels.forEach(label => {
+    cases[label]();
+    cases[label]();
+  });
+
+  for (let round = 0; round < ROUNDS; round++) {
+    labels.forEach(label => {
+      const start = process.hrtime.bigint();
+      cases[label]();
+      times[label].push(Number(process.hrtime.bigint() - start) / 1e6);
+    });
+  }
+
+  return Object.fromEntries(labels.map(label => {
+    const sorted = times[label].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    console.log(`${label.padEnd(28)} ${median.toFixed(2)} ms (median of ${ROUNDS})`);
+    return [label, median];
+  }));
+}
+
+const buffer = encoder.encodeBatchToBuffer(trackInfos);
+const results = measure({
+  decodeMultipleTracks: () => decodeMultipleTracks(encodedTracks, encoded => encoder.decodeTrack(encoded)),
+  decodeBatch: () => encoder.decodeBatch(encodedTracks),
+  decodeBatchFromBuffer: () => encoder.decodeBatchFromBuffer(buffer),
+});
+
+const perItem = results.decodeMultipleTracks;
+const batch = results.decodeBatch;
+const fromBuffer = results.decodeBatchFromBuffer;
+
+console.log(`\nbatch speed-up: ${(perItem / batch).toFixed(2)}x, buffer speed-up: ${(perItem / fromBuffer).toFixed(2)}x`);
+
+if (batch >= perItem || fromBuffer >= perItem) {
+  console.error('Batch decoding is not faster than the per-item path');
+  process.exit(1);
+}
@@ -11,7 +11,22 @@ import {
   DiscordPlaylist,
   EncoderOptions,
   PlaylistEncoderOptions,
-  SearchResult
+  SearchResult,
+  TrackFormat,
+  TrackMigrationReport,
+  LavalinkTrackV4,
+  DiscordEncoderOptions,
+  BatchDecodeResult,
+  BatchEncodeResult,
+  SourceTrackData,
+  PlaylistDedupeOptions,
+  PlaylistDedupeResult,
+  PlaylistFileFormat,
+  PlaylistFileImportOptions,
+  ImportedPlaylist,
+  CsvOptions,
+  ShareCodeOptions,
+  SharedPlaylist
 } from './types';
 
 /**
@@ -22,10 +37,10 @@ export class LavalinkEncoder {
   private playlistEncoder: PlaylistEncoder;
   private discordEncoder: DiscordTrackEncoder;
 
-  constructor(options: EncoderOptions & PlaylistEncoderOptions = {}) {
+  constructor(options: DiscordEncoderOptions = {}) {
     this.trackEncoder = new TrackEncoder(options);
     this.playlistEncoder = new PlaylistEncoder(options);
-    this.discordEncoder = new DiscordTrackEncoder();
+    this.discordEncoder = new DiscordTrackEncoder(options);
   }
 
   // Track encoding methods
@@ -37,6 +52,30 @@ export class LavalinkEncoder {
     return this.trackEncoder.decodeTrack(encodedTrack);
   }
 
+  public detectTrackFormat(encodedTrack: string): TrackFormat {
+    return this.trackEncoder.detectFormat(encodedTrack);
+  }
+
+  public decodeBatch(inputs: Array<string | Uint8Array>): BatchDecodeResult[] {
+    return this.trackEncoder.decodeBatch(inputs);
+  }
+
+  public encodeBatch(trackInfos: TrackInfo[]): BatchEncodeResult[] {
+    return this.trackEncoder.encodeBatch(trackInfos);
+  }
+
+  public decodeBatchFromBuffer(bytes: Uint8Array): BatchDecodeResult[] {
+    return this.trackEncoder.decodeBatchFromBuffer(bytes);
+  }
+
+  public encodeBatchToBuffer(trackInfos: TrackInfo[]): Uint8Array {
+    return this.trackEncoder.encodeBatchToBuffer(trackInfos);
+  }
+
+  public migrateLegacyTracks(encodedTracks: string[]): TrackMigrationReport {
+    return this.trackEncoder.migrateLegacyTracks(encodedTracks);
+  }
+
   public createTrack(
     identifier: string,
     title: string,
@@ -48,6 +87,17 @@ export class LavalinkEncoder {
     return this.trackEncoder.createTrack(identifier, title, author, length, uri, additionalInfo);
   }
 
+  public createSourceTrack(
+    sourceName: string,
+    identifier: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createSourceTrack(sourceName, identifier, title, author, duration, additionalInfo);
+  }
+
   public createYouTubeTrack(
     videoId: string,
     title: string,
@@ -78,6 +128,85 @@ export class LavalinkEncoder {
     return this.trackEncoder.createSoundCloudTrack(trackId, title, author, duration, additionalInfo);
   }
 
+  public createAppleMusicTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createAppleMusicTrack(trackId, title, author, duration, additionalInfo);
+  }
+
+  public createDeezerTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createDeezerTrack(trackId, title, author, duration, additionalInfo);
+  }
+
+  public createBandcampTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createBandcampTrack(trackId, title, author, duration, additionalInfo);
+  }
+
+  public createTwitchTrack(
+    channel: string,
+    title: string,
+    author: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createTwitchTrack(channel, title, author, additionalInfo);
+  }
+
+  public createVimeoTrack(
+    videoId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createVimeoTrack(videoId, title, author, duration, additionalInfo);
+  }
+
+  public createYandexMusicTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createYandexMusicTrack(trackId, title, author, duration, additionalInfo);
+  }
+
+  public createHttpTrack(
+    url: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createHttpTrack(url, title, author, duration, additionalInfo);
+  }
+
+  public createLocalTrack(
+    path: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.trackEncoder.createLocalTrack(path, title, author, duration, additionalInfo);
+  }
+
   // Playlist encoding methods
   public encodePlaylist(playlistInfo: PlaylistInfo, tracks: Track[]): LavalinkPlaylist {
     return this.playlistEncoder.encodePlaylist(playlistInfo, tracks);
@@ -91,6 +220,15 @@ export class LavalinkEncoder {
     return this.playlistEncoder.createPlaylist(name, trackInfos, selectedTrack);
   }
 
+  public createSourcePlaylist(
+    sourceName: string,
+    name: string,
+    trackData: SourceTrackData[],
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createSourcePlaylist(sourceName, name, trackData, selectedTrack);
+  }
+
   public createYouTubePlaylist(
     playlistId: string,
     name: string,
@@ -133,14 +271,196 @@ export class LavalinkEncoder {
     return this.playlistEncoder.createSoundCloudPlaylist(playlistId, name, trackData, selectedTrack);
   }
 
-  public mergePlaylists(playlists: LavalinkPlaylist[], newName?: string): LavalinkPlaylist {
-    return this.playlistEncoder.mergePlaylists(playlists, newName);
+  public createAppleMusicPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createAppleMusicPlaylist(playlistId, name, trackData, selectedTrack);
+  }
+
+  public createDeezerPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createDeezerPlaylist(playlistId, name, trackData, selectedTrack);
+  }
+
+  public createBandcampPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createBandcampPlaylist(playlistId, name, trackData, selectedTrack);
+  }
+
+  public createTwitchPlaylist(
+    playlistId: string,
+    name: string,
+    streamData: Array<{
+      channel: string;
+      title: string;
+      author: string;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createTwitchPlaylist(playlistId, name, streamData, selectedTrack);
+  }
+
+  public createVimeoPlaylist(
+    playlistId: string,
+    name: string,
+    videoData: Array<{
+      videoId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createVimeoPlaylist(playlistId, name, videoData, selectedTrack);
+  }
+
+  public createYandexMusicPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createYandexMusicPlaylist(playlistId, name, trackData, selectedTrack);
+  }
+
+  public createHttpPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      url: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createHttpPlaylist(playlistId, name, trackData, selectedTrack);
+  }
+
+  public createLocalPlaylist(
+    playlistId: string,
+    name: string,
+    fileData: Array<{
+      path: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.createLocalPlaylist(playlistId, name, fileData, selectedTrack);
+  }
+
+  public mergePlaylists(
+    playlists: LavalinkPlaylist[],
+    newName?: string,
+    dedupeOptions?: PlaylistDedupeOptions
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.mergePlaylists(playlists, newName, dedupeOptions);
+  }
+
+  public dedupePlaylist(playlist: LavalinkPlaylist, options: PlaylistDedupeOptions = {}): PlaylistDedupeResult {
+    return this.playlistEncoder.dedupe(playlist, options);
   }
 
   public splitPlaylist(playlist: LavalinkPlaylist, chunkSize: number): LavalinkPlaylist[] {
     return this.playlistEncoder.splitPlaylist(playlist, chunkSize);
   }
 
+  public importPlaylist(content: string, options: PlaylistFileImportOptions = {}): ImportedPlaylist {
+    return this.playlistEncoder.importPlaylist(content, options);
+  }
+
+  public exportPlaylist(playlist: LavalinkPlaylist, format: PlaylistFileFormat, csv?: CsvOptions): string {
+    return this.playlistEncoder.exportPlaylist(playlist, format, csv);
+  }
+
+  public signTrack(encodedTrack: string): string {
+    return this.trackEncoder.signTrack(encodedTrack);
+  }
+
+  public verifyTrack(signedTrack: string): string {
+    return this.trackEncoder.verifyTrack(signedTrack);
+  }
+
+  public decodeSignedTrack(signedTrack: string): TrackInfo {
+    return this.trackEncoder.decodeSignedTrack(signedTrack);
+  }
+
+  public toShareCode(playlist: LavalinkPlaylist, options: ShareCodeOptions = {}): string {
+    return this.playlistEncoder.toShareCode(playlist, options);
+  }
+
+  public fromShareCode(code: string): SharedPlaylist {
+    return this.playlistEncoder.fromShareCode(code);
+  }
+
+  public insertTracks(playlist: LavalinkPlaylist, index: number, tracks: Track | Track[]): LavalinkPlaylist {
+    return this.playlistEncoder.insertTracks(playlist, index, tracks);
+  }
+
+  public removeTrack(playlist: LavalinkPlaylist, index: number): LavalinkPlaylist {
+    return this.playlistEncoder.removeTrack(playlist, index);
+  }
+
+  public removeTracks(
+    playlist: LavalinkPlaylist,
+    predicate: (track: LavalinkTrack, index: number) => boolean
+  ): LavalinkPlaylist {
+    return this.playlistEncoder.removeTracks(playlist, predicate);
+  }
+
+  public moveTrack(playlist: LavalinkPlaylist, from: number, to: number): LavalinkPlaylist {
+    return this.playlistEncoder.moveTrack(playlist, from, to);
+  }
+
+  public swapTracks(playlist: LavalinkPlaylist, first: number, second: number): LavalinkPlaylist {
+    return this.playlistEncoder.swapTracks(playlist, first, second);
+  }
+
+  public reversePlaylist(playlist: LavalinkPlaylist): LavalinkPlaylist {
+    return this.playlistEncoder.reversePlaylist(playlist);
+  }
+
+  public slicePlaylist(playlist: LavalinkPlaylist, start?: number, end?: number): LavalinkPlaylist {
+    return this.playlistEncoder.slicePlaylist(playlist, start, end);
+  }
+
+  public replaceTrack(playlist: LavalinkPlaylist, index: number, track: Track): LavalinkPlaylist {
+    return this.playlistEncoder.replaceTrack(playlist, index, track);
+  }
+
   // Discord-specific methods
   public encodeDiscordTrack(
     trackInfo: TrackInfo,
@@ -169,6 +489,26 @@ export class LavalinkEncoder {
     return this.discordEncoder.encodeDiscordPlaylist(playlistInfo, tracks, requester, guildId, channelId);
   }
 
+  public createDiscordSourceTrack(
+    sourceName: string,
+    identifier: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordSourceTrack(
+      sourceName, identifier, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
   public createDiscordYouTubeTrack(
     videoId: string,
     title: string,
@@ -226,15 +566,11 @@ export class LavalinkEncoder {
     );
   }
 
-  public createDiscordYouTubePlaylist(
-    playlistId: string,
-    name: string,
-    videoData: Array<{
-      videoId: string;
-      title: string;
-      author: string;
-      duration: number;
-    }>,
+  public createDiscordAppleMusicTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
     requester: {
       id: string;
       username: string;
@@ -242,24 +578,197 @@ export class LavalinkEncoder {
     },
     guildId: string,
     channelId: string,
-    selectedTrack: number = 0
-  ): DiscordPlaylist {
-    return this.discordEncoder.createDiscordYouTubePlaylist(
-      playlistId, name, videoData, requester, guildId, channelId, selectedTrack
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordAppleMusicTrack(
+      trackId, title, author, duration, requester, guildId, channelId, additionalInfo
     );
   }
 
-  public createDiscordSpotifyPlaylist(
-    playlistId: string,
-    name: string,
-    trackData: Array<{
-      trackId: string;
-      title: string;
-      author: string;
-      duration: number;
-    }>,
-    requester: {
-      id: string;
+  public createDiscordDeezerTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordDeezerTrack(
+      trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  public createDiscordBandcampTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordBandcampTrack(
+      trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  public createDiscordTwitchTrack(
+    channel: string,
+    title: string,
+    author: string,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordTwitchTrack(
+      channel, title, author, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  public createDiscordVimeoTrack(
+    videoId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordVimeoTrack(
+      videoId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  public createDiscordYandexMusicTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordYandexMusicTrack(
+      trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  public createDiscordHttpTrack(
+    url: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordHttpTrack(
+      url, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  public createDiscordLocalTrack(
+    path: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.discordEncoder.createDiscordLocalTrack(
+      path, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  public createDiscordSourcePlaylist(
+    sourceName: string,
+    name: string,
+    trackData: SourceTrackData[],
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordSourcePlaylist(
+      sourceName, name, trackData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordYouTubePlaylist(
+    playlistId: string,
+    name: string,
+    videoData: Array<{
+      videoId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordYouTubePlaylist(
+      playlistId, name, videoData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordSpotifyPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
       username: string;
       discriminator?: string;
     },
@@ -272,6 +781,197 @@ export class LavalinkEncoder {
     );
   }
 
+  public createDiscordAppleMusicPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordAppleMusicPlaylist(
+      playlistId, name, trackData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordDeezerPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordDeezerPlaylist(
+      playlistId, name, trackData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordBandcampPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordBandcampPlaylist(
+      playlistId, name, trackData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordTwitchPlaylist(
+    playlistId: string,
+    name: string,
+    streamData: Array<{
+      channel: string;
+      title: string;
+      author: string;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordTwitchPlaylist(
+      playlistId, name, streamData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordVimeoPlaylist(
+    playlistId: string,
+    name: string,
+    videoData: Array<{
+      videoId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordVimeoPlaylist(
+      playlistId, name, videoData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordYandexMusicPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordYandexMusicPlaylist(
+      playlistId, name, trackData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordHttpPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      url: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordHttpPlaylist(
+      playlistId, name, trackData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public createDiscordLocalPlaylist(
+    playlistId: string,
+    name: string,
+    fileData: Array<{
+      path: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    return this.discordEncoder.createDiscordLocalPlaylist(
+      playlistId, name, fileData, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  public decodeDiscordTrack(encoded: string | Pick<LavalinkTrackV4, 'encoded' | 'userData'>): DiscordTrack {
+    return this.discordEncoder.decodeDiscordTrack(encoded);
+  }
+
+  public toLavalinkTrack(track: DiscordTrack): LavalinkTrackV4 {
+    return this.discordEncoder.toLavalinkTrack(track);
+  }
+
   // Utility methods
   public getRequester(track: DiscordTrack): {
     id: string;
@@ -288,15 +988,19 @@ export class LavalinkEncoder {
     return this.discordEncoder.getGuildInfo(track);
   }
 
-  public filterTracksByRequester(tracks: DiscordTrack[], requesterId: string): DiscordTrack[] {
+  public filterTracksByRequester(tracks: Iterable<DiscordTrack>, requesterId: string): DiscordTrack[] {
     return this.discordEncoder.filterTracksByRequester(tracks, requesterId);
   }
 
-  public filterTracksByGuild(tracks: DiscordTrack[], guildId: string): DiscordTrack[] {
+  public filterTracksByGuild(tracks: Iterable<DiscordTrack>, guildId: string): DiscordTrack[] {
     return this.discordEncoder.filterTracksByGuild(tracks, guildId);
   }
 
-  public getTrackStats(tracks: DiscordTrack[], requesterId: string): {
+  public orderTracksFairly(tracks: Iterable<DiscordTrack>, lastRequesterId?: string): DiscordTrack[] {
+    return this.discordEncoder.orderTracksFairly(tracks, lastRequesterId);
+  }
+
+  public getTrackStats(tracks: Iterable<DiscordTrack>, requesterId: string): {
     totalTracks: number;
     totalDuration: number;
     sources: Record<string, number>;
@@ -305,9 +1009,10 @@ export class LavalinkEncoder {
   }
 
   // Configuration methods
-  public updateOptions(options: Partial<EncoderOptions & PlaylistEncoderOptions>): void {
-    this.trackEncoder.updateOptions(options);
-    this.playlistEncoder.updateOptions(options);
+  public updateOptions(options: Partial<DiscordEncoderOptions>): void {
+    const { contextStorage, ...encoderOptions } = options;
+    this.trackEncoder.updateOptions(encoderOptions);
+    this.playlistEncoder.updateOptions(encoderOptions);
     this.discordEncoder.updateOptions(options);
   }
 
@@ -0,0 +1,23 @@
+/**
+ * Track fixtures shared by the test suites
+ */
+
+import { TrackInfo } from '../types';
+
+/**
+ * Info of a YouTube track, with any fields overridden
+ */
+export function trackInfo(overrides: Partial<TrackInfo> = {}): TrackInfo {
+  return {
+    identifier: 'dQw4w9WgXcQ',
+    isSeekable: true,
+    author: 'Rick Astley',
+    length: 212000,
+    isStream: false,
+    position: 0,
+    title: 'Never Gonna Give You Up',
+    uri: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    sourceName: 'youtube',
+    ...overrides,
+  };
+}
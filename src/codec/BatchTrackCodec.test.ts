@@ -0,0 +1,83 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { TrackEncoder } from '../encoders/TrackEncoder';
+import { BatchTrackCodec } from './BatchTrackCodec';
+
+const encoder = new TrackEncoder();
+const info = trackInfo();
+const encoded = encoder.encodeTrack(info).track;
+
+function urlSafe(value: string): string {
+  return value.replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+describe('BatchTrackCodec', () => {
+  it('round-trips tracks with encodeBatch and decodeBatch', () => {
+    const infos = [info, trackInfo({ identifier: 'yPYZpwSpKmA', title: 'Together Forever', length: 205000 })];
+    const encodedBatch = encoder.encodeBatch(infos);
+
+    expect(encodedBatch.map(result => result.success && result.track)).toEqual(
+      infos.map(trackInfo => encoder.encodeTrack(trackInfo).track)
+    );
+    expect(encoder.decodeBatch(encodedBatch.map(result => (result.success ? result.track : '')))).toEqual(
+      infos.map(track => ({ success: true, track }))
+    );
+  });
+
+  it('decodes raw message bytes and base64 strings alike', () => {
+    const bytes = Buffer.from(encoded, 'base64');
+
+    expect(new BatchTrackCodec().decode([bytes, new Uint8Array(bytes), encoded])).toEqual([
+      { success: true, track: info },
+      { success: true, track: info },
+      { success: true, track: info },
+    ]);
+  });
+
+  it('reuses its scratch buffer without leaking bytes between tracks', () => {
+    const codec = new BatchTrackCodec();
+    const long = trackInfo({ title: 'Never Gonna Give You Up '.repeat(100) });
+    const [longTrack, shortTrack] = encoder.encodeBatch([long, info]).map(result => (result.success ? result.track : ''));
+
+    const first = codec.decode([shortTrack]);
+    const second = codec.decode([longTrack, shortTrack, longTrack]);
+
+    expect(first).toEqual([{ success: true, track: info }]);
+    expect(second.map(result => result.success && result.track)).toEqual([long, info, long]);
+  });
+
+  it('reports failures per index and keeps decoding', () => {
+    const results = encoder.decodeBatch([encoded, 'not base64!', encoded.slice(0, 20), new Uint8Array([1, 2, 3]), encoded]);
+
+    expect(results[0]).toEqual({ success: true, track: info });
+    expect(results[4]).toEqual({ success: true, track: info });
+    expect(results.slice(1, 4).map(result => !result.success && result.index)).toEqual([1, 2, 3]);
+  });
+
+  it('reports encoding failures per index', () => {
+    const results = encoder.encodeBatch([info, trackInfo({ title: undefined as unknown as string }), info]);
+
+    expect(results.map(result => result.success)).toEqual([true, false, true]);
+    expect(results[1]).toMatchObject({ success: false, index: 1 });
+  });
+
+  it('accepts the same base64 as decodeTrack', () => {
+    // A run of 0x3f bytes puts a '/' in the encoding
+    const question = trackInfo({ title: 'Never Gonna Give You Up???' });
+    const track = encoder.encodeTrack(question).track;
+    const unpadded = track.replace(/=+$/, '');
+    expect(unpadded).not.toBe(track);
+    expect(urlSafe(track)).not.toBe(track);
+
+    for (const value of [track, unpadded, urlSafe(track), urlSafe(unpadded)]) {
+      expect(encoder.decodeTrack(value)).toEqual(question);
+      expect(encoder.decodeBatch([value])).toEqual([{ success: true, track: question }]);
+    }
+
+    for (const value of [`${unpadded}=`, `${track}=`, `${track} `, track.slice(0, 9), `${track}*`]) {
+      expect(() => encoder.decodeTrack(value)).toThrow('Failed to decode track: Invalid base64 string');
+      expect(encoder.decodeBatch([value])).toEqual([
+        { success: false, error: expect.stringMatching(/^Invalid base64 string/), index: 0 },
+      ]);
+    }
+  });
+});
@@ -0,0 +1,231 @@
+import { TrackInfo, TrackInfoVersion, BatchDecodeResult, BatchEncodeResult } from '../types';
+import { DataReader } from './DataReader';
+import { DataWriter } from './DataWriter';
+import { TRACK_INFO_VERSION, readTrackMessage, writeTrackMessage } from './TrackCodec';
+import { SourceFieldRegistry, defaultSourceFieldRegistry } from './SourceFieldRegistry';
+import { detectTrackFormat, decodeLegacyTrackBytes } from './TrackFormat';
+import { unpaddedBase64Length } from './base64url';
+import * as base64 from 'base64-js';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Int16Array(128).fill(-1);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+// Accept the URL-safe alphabet as well
+BASE64_LOOKUP['-'.charCodeAt(0)] = 62;
+BASE64_LOOKUP['_'.charCodeAt(0)] = 63;
+
+const HAS_NATIVE_BUFFER = typeof Buffer !== 'undefined' && typeof Buffer.allocUnsafe === 'function';
+
+/**
+ * Batch track codec that reuses its buffers across tracks.
+ * Inputs may be base64 strings or raw message bytes (`Uint8Array` or `Buffer`).
+ */
+export class BatchTrackCodec {
+  private scratch: Uint8Array;
+  private reader: DataReader;
+  private writer: DataWriter;
+  private trackVersion: TrackInfoVersion;
+  private sourceFields: SourceFieldRegistry;
+
+  constructor(options: { trackVersion?: TrackInfoVersion; sourceFields?: SourceFieldRegistry } = {}) {
+    this.scratch = this.allocateScratch(1024);
+    this.reader = new DataReader(this.scratch);
+    this.writer = new DataWriter(64 * 1024);
+    this.trackVersion = options.trackVersion ?? TRACK_INFO_VERSION;
+    this.sourceFields = options.sourceFields ?? defaultSourceFieldRegistry;
+  }
+
+  /**
+   * Decodes many tracks, reporting failures per index instead of throwing
+   */
+  public decode(inputs: Array<string | Uint8Array>): BatchDecodeResult[] {
+    const results: BatchDecodeResult[] = new Array(inputs.length);
+
+    for (let index = 0; index < inputs.length; index++) {
+      try {
+        results[index] = { success: true, track: this.decodeOne(inputs[index]) };
+      } catch (error) {
+        results[index] = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          index,
+        };
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Decodes back-to-back track messages from a single buffer without copying it.
+   * A malformed message ends decoding, since the next message boundary cannot be found.
+   */
+  public decodeConcatenated(bytes: Uint8Array): BatchDecodeResult[] {
+    const results: BatchDecodeResult[] = [];
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const index = results.length;
+      try {
+        if (bytes.length - offset < 4) {
+          throw new Error('Unexpected end of track data');
+        }
+        const size = (
+          ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) &
+          0x3fffffff
+        );
+        const end = offset + 4 + size;
+        if (end > bytes.length) {
+          throw new Error(`Track message size ${size} exceeds the available ${bytes.length - offset - 4} bytes`);
+        }
+
+        this.reader.reset(bytes, offset, end);
+        results.push({ success: true, track: readTrackMessage(this.reader, this.sourceFields).info });
+        offset = end;
+      } catch (error) {
+        results.push({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          index,
+        });
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Encodes many tracks to base64 strings, reporting failures per index instead of throwing
+   */
+  public encode(trackInfos: TrackInfo[]): BatchEncodeResult[] {
+    const results: BatchEncodeResult[] = new Array(trackInfos.length);
+
+    for (let index = 0; index < trackInfos.length; index++) {
+      try {
+        this.writer.reset();
+        writeTrackMessage(this.writer, trackInfos[index], this.trackVersion, this.sourceFields);
+        results[index] = { success: true, track: base64.fromByteArray(this.writer.subarray()) };
+      } catch (error) {
+        results[index] = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          index,
+        };
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Encodes tracks as back-to-back messages in a single buffer, readable by `decodeConcatenated`
+   */
+  public encodeConcatenated(trackInfos: TrackInfo[]): Uint8Array {
+    this.writer.reset();
+    trackInfos.forEach(trackInfo => writeTrackMessage(this.writer, trackInfo, this.trackVersion, this.sourceFields));
+    return this.writer.toUint8Array();
+  }
+
+  private decodeOne(input: string | Uint8Array): TrackInfo {
+    let bytes: Uint8Array;
+    let length: number;
+
+    if (typeof input === 'string') {
+      length = this.decodeBase64(input);
+      bytes = this.scratch;
+    } else {
+      bytes = input;
+      length = input.length;
+    }
+
+    switch (detectTrackFormat(bytes, length)) {
+      case 'lavaplayer':
+        this.reader.reset(bytes, 0, length);
+        return readTrackMessage(this.reader, this.sourceFields).info;
+      case 'legacy-json':
+        return decodeLegacyTrackBytes(bytes.subarray(0, length));
+      default:
+        throw new Error('Unrecognized track format');
+    }
+  }
+
+  /**
+   * Decodes base64 into the scratch buffer and returns the number of decoded bytes.
+   * Accepts the same base64 as `TrackEncoder.decodeTrack`.
+   */
+  private decodeBase64(value: string): number {
+    const length = unpaddedBase64Length(value);
+
+    const byteLength = Math.floor((length * 3) / 4);
+    if (byteLength > this.scratch.length) {
+      let capacity = this.scratch.length * 2;
+      while (capacity < byteLength) {
+        capacity *= 2;
+      }
+      this.scratch = this.allocateScratch(capacity);
+    }
+
+    if (HAS_NATIVE_BUFFER) {
+      // Node decodes natively into the reused buffer but skips invalid characters,
+      // which always leaves it short of the expected byte count
+      const written = (this.scratch as Buffer).write(value.substring(0, length), 0, 'base64');
+      if (written !== byteLength) {
+        throw new Error('Invalid base64 string');
+      }
+      return written;
+    }
+
+    const out = this.scratch;
+    const fullLength = length - (length % 4);
+    let offset = 0;
+    let i = 0;
+
+    for (; i < fullLength; i += 4) {
+      const c0 = value.charCodeAt(i);
+      const c1 = value.charCodeAt(i + 1);
+      const c2 = value.charCodeAt(i + 2);
+      const c3 = value.charCodeAt(i + 3);
+      if ((c0 | c1 | c2 | c3) > 127) {
+        throw new Error(`Invalid base64 character near position ${i}`);
+      }
+      const d0 = BASE64_LOOKUP[c0];
+      const d1 = BASE64_LOOKUP[c1];
+      const d2 = BASE64_LOOKUP[c2];
+      const d3 = BASE64_LOOKUP[c3];
+      if ((d0 | d1 | d2 | d3) < 0) {
+        throw new Error(`Invalid base64 character near position ${i}`);
+      }
+      const bits = (d0 << 18) | (d1 << 12) | (d2 << 6) | d3;
+      out[offset++] = (bits >> 16) & 0xff;
+      out[offset++] = (bits >> 8) & 0xff;
+      out[offset++] = bits & 0xff;
+    }
+
+    if (length - i === 2) {
+      const bits = (this.digit(value, i) << 18) | (this.digit(value, i + 1) << 12);
+      out[offset++] = (bits >> 16) & 0xff;
+    } else if (length - i === 3) {
+      const bits = (this.digit(value, i) << 18) | (this.digit(value, i + 1) << 12) | (this.digit(value, i + 2) << 6);
+      out[offset++] = (bits >> 16) & 0xff;
+      out[offset++] = (bits >> 8) & 0xff;
+    }
+
+    return offset;
+  }
+
+  private allocateScratch(size: number): Uint8Array {
+    return HAS_NATIVE_BUFFER ? Buffer.allocUnsafe(size) : new Uint8Array(size);
+  }
+
+  private digit(value: string, position: number): number {
+    const code = value.charCodeAt(position);
+    const digit = code < 128 ? BASE64_LOOKUP[code] : -1;
+    if (digit === -1) {
+      throw new Error(`Invalid base64 character at position ${position}`);
+    }
+    return digit;
+  }
+}
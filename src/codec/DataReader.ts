@@ -0,0 +1,187 @@
+/**
+ * Shared decoder for ASCII runs, where UTF-8 and modified UTF-8 agree
+ */
+const asciiDecoder = new TextDecoder();
+
+/**
+ * Big-endian binary reader compatible with Java's DataInputStream
+ */
+export class DataReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset: number;
+  private end: number;
+
+  constructor(bytes: Uint8Array, start: number = 0, end: number = bytes.length) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.offset = start;
+    this.end = end;
+  }
+
+  /**
+   * Points the reader at new bytes so one instance can be reused across messages
+   */
+  public reset(bytes: Uint8Array, start: number = 0, end: number = bytes.length): void {
+    if (bytes !== this.bytes) {
+      this.bytes = bytes;
+      this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+    this.offset = start;
+    this.end = end;
+  }
+
+  /**
+   * Current read position
+   */
+  public get position(): number {
+    return this.offset;
+  }
+
+  /**
+   * Number of bytes left before the read limit
+   */
+  public get remaining(): number {
+    return this.end - this.offset;
+  }
+
+  /**
+   * Restricts reading to the given end position
+   */
+  public limit(end: number): void {
+    if (end < this.offset || end > this.bytes.length) {
+      throw new Error(`Invalid read limit ${end}`);
+    }
+    this.end = end;
+  }
+
+  public readByte(): number {
+    this.require(1);
+    return this.bytes[this.offset++];
+  }
+
+  public readBoolean(): boolean {
+    return this.readByte() !== 0;
+  }
+
+  public readUnsignedShort(): number {
+    this.require(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  public readInt(): number {
+    this.require(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  /**
+   * Reads a 64-bit signed integer as a number (precision is lost above 2^53)
+   */
+  public readLong(): number {
+    this.require(8);
+    const high = this.view.getInt32(this.offset);
+    const low = this.view.getUint32(this.offset + 4);
+    this.offset += 8;
+    return high * 0x100000000 + low;
+  }
+
+  /**
+   * Reads a length-prefixed string in Java's modified UTF-8 encoding
+   */
+  public readUTF(): string {
+    const byteLength = this.readUnsignedShort();
+    this.require(byteLength);
+
+    const bytes = this.bytes;
+    const end = this.offset + byteLength;
+    let offset = this.offset;
+
+    // Most track strings are plain ASCII, which maps byte for byte to UTF-16
+    while (offset < end && bytes[offset] < 0x80) {
+      offset++;
+    }
+    if (offset === end) {
+      const value = asciiDecoder.decode(bytes.subarray(this.offset, end));
+      this.offset = end;
+      return value;
+    }
+
+    const codes: number[] = [];
+    offset = this.offset;
+
+    while (offset < end) {
+      const a = bytes[offset++];
+      if ((a & 0x80) === 0) {
+        codes.push(a);
+      } else if ((a & 0xe0) === 0xc0) {
+        if (offset >= end) throw new Error('Malformed modified UTF-8 string');
+        const b = bytes[offset++];
+        if ((b & 0xc0) !== 0x80) throw new Error('Malformed modified UTF-8 string');
+        codes.push(((a & 0x1f) << 6) | (b & 0x3f));
+      } else if ((a & 0xf0) === 0xe0) {
+        if (offset + 1 >= end) throw new Error('Malformed modified UTF-8 string');
+        const b = bytes[offset++];
+        const c = bytes[offset++];
+        if ((b & 0xc0) !== 0x80 || (c & 0xc0) !== 0x80) {
+          throw new Error('Malformed modified UTF-8 string');
+        }
+        codes.push(((a & 0x0f) << 12) | ((b & 0x3f) << 6) | (c & 0x3f));
+      } else {
+        throw new Error('Malformed modified UTF-8 string');
+      }
+    }
+
+    this.offset = end;
+    return codesToString(codes);
+  }
+
+  /**
+   * Reads a presence flag followed by the string when it is set
+   */
+  public readNullableUTF(): string | null {
+    return this.readBoolean() ? this.readUTF() : null;
+  }
+
+  /**
+   * Reads the given number of raw bytes as a copy
+   */
+  public readBytes(length: number): Uint8Array {
+    this.require(length);
+    const bytes = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /**
+   * Moves the read position to an absolute offset within the limit
+   */
+  public seek(position: number): void {
+    if (position < 0 || position > this.end) {
+      throw new Error(`Invalid read position ${position}`);
+    }
+    this.offset = position;
+  }
+
+  private require(length: number): void {
+    if (this.offset + length > this.end) {
+      throw new Error('Unexpected end of track data');
+    }
+  }
+}
+
+function codesToString(codes: number[]): string {
+  const chunkSize = 0x2000;
+  if (codes.length <= chunkSize) {
+    return String.fromCharCode.apply(null, codes);
+  }
+
+  let result = '';
+  for (let i = 0; i < codes.length; i += chunkSize) {
+    result += String.fromCharCode.apply(null, codes.slice(i, i + chunkSize));
+  }
+  return result;
+}
@@ -0,0 +1,173 @@
+/**
+ * Big-endian binary writer compatible with Java's DataOutputStream
+ */
+export class DataWriter {
+  private buffer: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(initialCapacity: number = 256) {
+    this.buffer = new Uint8Array(Math.max(16, initialCapacity));
+    this.view = new DataView(this.buffer.buffer);
+  }
+
+  /**
+   * Number of bytes written so far
+   */
+  public get length(): number {
+    return this.offset;
+  }
+
+  public writeByte(value: number): void {
+    this.ensureCapacity(1);
+    this.buffer[this.offset++] = value & 0xff;
+  }
+
+  public writeBoolean(value: boolean): void {
+    this.writeByte(value ? 1 : 0);
+  }
+
+  public writeShort(value: number): void {
+    this.ensureCapacity(2);
+    this.view.setUint16(this.offset, value & 0xffff);
+    this.offset += 2;
+  }
+
+  public writeInt(value: number): void {
+    this.ensureCapacity(4);
+    this.view.setInt32(this.offset, value | 0);
+    this.offset += 4;
+  }
+
+  /**
+   * Writes a 64-bit signed integer, clamping values outside the Java long range
+   */
+  public writeLong(value: number): void {
+    this.ensureCapacity(8);
+    this.view.setBigInt64(this.offset, toJavaLong(value));
+    this.offset += 8;
+  }
+
+  /**
+   * Writes a string in Java's modified UTF-8 encoding, prefixed by its byte length
+   */
+  public writeUTF(value: string): void {
+    const byteLength = modifiedUtf8Length(value);
+    if (byteLength > 0xffff) {
+      throw new Error(`String is too long to encode (${byteLength} bytes, maximum is 65535)`);
+    }
+
+    this.writeShort(byteLength);
+    this.ensureCapacity(byteLength);
+
+    const buffer = this.buffer;
+    let offset = this.offset;
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      if (code >= 0x0001 && code <= 0x007f) {
+        buffer[offset++] = code;
+      } else if (code <= 0x07ff) {
+        buffer[offset++] = 0xc0 | ((code >> 6) & 0x1f);
+        buffer[offset++] = 0x80 | (code & 0x3f);
+      } else {
+        buffer[offset++] = 0xe0 | ((code >> 12) & 0x0f);
+        buffer[offset++] = 0x80 | ((code >> 6) & 0x3f);
+        buffer[offset++] = 0x80 | (code & 0x3f);
+      }
+    }
+    this.offset = offset;
+  }
+
+  /**
+   * Writes a presence flag followed by the string when it is not null
+   */
+  public writeNullableUTF(value: string | null | undefined): void {
+    const present = value !== null && value !== undefined;
+    this.writeBoolean(present);
+    if (present) {
+      this.writeUTF(value as string);
+    }
+  }
+
+  public writeBytes(bytes: Uint8Array): void {
+    this.ensureCapacity(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  /**
+   * Overwrites a 32-bit integer at an already written position
+   */
+  public setInt(position: number, value: number): void {
+    this.view.setInt32(position, value | 0);
+  }
+
+  /**
+   * Returns a copy of the written bytes
+   */
+  public toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+
+  /**
+   * Returns a view of the written bytes without copying; it is invalidated by further writes
+   */
+  public subarray(start: number = 0): Uint8Array {
+    return this.buffer.subarray(start, this.offset);
+  }
+
+  /**
+   * Clears the writer so its buffer can be reused
+   */
+  public reset(): void {
+    this.offset = 0;
+  }
+
+  private ensureCapacity(additional: number): void {
+    const required = this.offset + additional;
+    if (required <= this.buffer.length) {
+      return;
+    }
+
+    let capacity = this.buffer.length * 2;
+    while (capacity < required) {
+      capacity *= 2;
+    }
+
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+const JAVA_LONG_MAX = BigInt('9223372036854775807');
+const JAVA_LONG_MIN = BigInt('-9223372036854775808');
+
+function toJavaLong(value: number): bigint {
+  if (!Number.isFinite(value)) {
+    return value > 0 ? JAVA_LONG_MAX : value < 0 ? JAVA_LONG_MIN : BigInt(0);
+  }
+  const long = BigInt(Math.trunc(value));
+  if (long > JAVA_LONG_MAX) return JAVA_LONG_MAX;
+  if (long < JAVA_LONG_MIN) return JAVA_LONG_MIN;
+  return long;
+}
+
+/**
+ * Computes the modified UTF-8 byte length of a string
+ */
+export function modifiedUtf8Length(value: string): number {
+  let length = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code >= 0x0001 && code <= 0x007f) {
+      length += 1;
+    } else if (code <= 0x07ff) {
+      length += 2;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+}
@@ -0,0 +1,69 @@
+import { HmacSigner, SIGNATURE_SEPARATOR } from './HmacSigner';
+
+const OLD_KEY = 'old-key-0123456789abcdef';
+const NEW_KEY = 'new-key-0123456789abcdef';
+
+describe('HmacSigner', () => {
+  it('signs and verifies a value', () => {
+    const signer = new HmacSigner({ keys: [NEW_KEY] });
+    const signed = signer.sign('QAAA+/==', 'track');
+
+    expect(signed.startsWith(`QAAA+/==${SIGNATURE_SEPARATOR}`)).toBe(true);
+    expect(signer.isSigned(signed)).toBe(true);
+    expect(signer.isSigned('QAAA+/==')).toBe(false);
+    expect(signer.verify(signed, 'track')).toBe('QAAA+/==');
+  });
+
+  it('signs deterministically with a signature of the configured length', () => {
+    const signer = new HmacSigner({ keys: [NEW_KEY], signatureLength: 8 });
+    const signed = signer.sign('value', 'track');
+
+    expect(signer.sign('value', 'track')).toBe(signed);
+    expect(Buffer.from(signed.split(SIGNATURE_SEPARATOR)[1], 'base64url')).toHaveLength(8);
+    expect(() => new HmacSigner({ keys: [NEW_KEY] }).verify(signed, 'track')).toThrow('Invalid signature');
+  });
+
+  it('rejects modified values and signatures', () => {
+    const signer = new HmacSigner({ keys: [NEW_KEY] });
+    const signed = signer.sign('value', 'track');
+    const signature = signed.substring(signed.indexOf(SIGNATURE_SEPARATOR) + 1);
+    const flipped = `${signature[0] === 'A' ? 'B' : 'A'}${signature.substring(1)}`;
+
+    expect(() => signer.verify(signed.replace('value', 'valuf'), 'track')).toThrow('Invalid signature');
+    expect(() => signer.verify(`value~${flipped}`, 'track')).toThrow('Invalid signature');
+    expect(() => signer.verify('value~not base64!', 'track')).toThrow('Invalid signature');
+    expect(() => signer.verify('value', 'track')).toThrow('Value is not signed');
+  });
+
+  it('does not accept a signature made for another purpose', () => {
+    const signer = new HmacSigner({ keys: [NEW_KEY] });
+
+    expect(() => signer.verify(signer.sign('value', 'track'), 'share-code')).toThrow('Invalid signature');
+  });
+
+  it('signs with the first key and verifies with every key, for rotation', () => {
+    const before = new HmacSigner({ keys: [OLD_KEY] });
+    const during = new HmacSigner({ keys: [NEW_KEY, OLD_KEY] });
+    const after = new HmacSigner({ keys: [NEW_KEY] });
+    const signedBefore = before.sign('value', 'track');
+    const signedDuring = during.sign('value', 'track');
+
+    expect(during.verify(signedBefore, 'track')).toBe('value');
+    expect(after.verify(signedDuring, 'track')).toBe('value');
+    expect(() => before.verify(signedDuring, 'track')).toThrow('Invalid signature');
+    expect(() => after.verify(signedBefore, 'track')).toThrow('Invalid signature');
+  });
+
+  it('accepts byte keys equal to their UTF-8 string form', () => {
+    const signed = new HmacSigner({ keys: [Buffer.from(NEW_KEY, 'utf8')] }).sign('value', 'track');
+
+    expect(new HmacSigner({ keys: [NEW_KEY] }).verify(signed, 'track')).toBe('value');
+  });
+
+  it('rejects missing or short keys and out-of-range signature lengths', () => {
+    expect(() => new HmacSigner({ keys: [] })).toThrow('Signing requires at least one key');
+    expect(() => new HmacSigner({ keys: [NEW_KEY, 'short'] })).toThrow('Signing keys must be at least 16 bytes long');
+    expect(() => new HmacSigner({ keys: [NEW_KEY], signatureLength: 7 })).toThrow('Signature length must be between 8 and 32 bytes');
+    expect(() => new HmacSigner({ keys: [NEW_KEY], signatureLength: 33 })).toThrow('Signature length must be between 8 and 32 bytes');
+  });
+});
@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SigningOptions } from '../types';
+import { toBase64Url, fromBase64Url } from './base64url';
+
+/**
+ * Separates a value from its signature. Outside the base64, base64url and envelope
+ * alphabets, so it never appears inside an encoded track, envelope or share code.
+ */
+export const SIGNATURE_SEPARATOR = '~';
+
+/**
+ * What a signature was made for; a signature for one purpose never verifies for another
+ */
+export type SignaturePurpose = 'track' | 'share-code';
+
+/**
+ * Appends and verifies truncated HMAC-SHA256 signatures. The first key signs and every
+ * key verifies, so keys can be rotated by putting the new key first and dropping the
+ * old one once values signed with it have expired.
+ */
+export class HmacSigner {
+  private keys: Buffer[];
+  private signatureLength: number;
+
+  constructor(options: SigningOptions) {
+    if (!options.keys || options.keys.length === 0) {
+      throw new Error('Signing requires at least one key');
+    }
+    this.keys = options.keys.map(key => (typeof key === 'string' ? Buffer.from(key, 'utf8') : Buffer.from(key)));
+    if (this.keys.some(key => key.length < 16)) {
+      throw new Error('Signing keys must be at least 16 bytes long');
+    }
+
+    this.signatureLength = options.signatureLength ?? 16;
+    if (!Number.isInteger(this.signatureLength) || this.signatureLength < 8 || this.signatureLength > 32) {
+      throw new Error('Signature length must be between 8 and 32 bytes');
+    }
+  }
+
+  /**
+   * Appends a signature to a value as `<value>~<base64url signature>`
+   */
+  public sign(value: string, purpose: SignaturePurpose): string {
+    return `${value}${SIGNATURE_SEPARATOR}${toBase64Url(this.digest(this.keys[0], value, purpose))}`;
+  }
+
+  /**
+   * Checks a signed value against every key in constant time and returns the value
+   * without its signature
+   */
+  public verify(signed: string, purpose: SignaturePurpose): string {
+    const separator = signed.lastIndexOf(SIGNATURE_SEPARATOR);
+    if (separator === -1) {
+      throw new Error('Value is not signed');
+    }
+
+    const value = signed.substring(0, separator);
+    let signature: Uint8Array;
+    try {
+      signature = fromBase64Url(signed.substring(separator + 1));
+    } catch {
+      throw new Error('Invalid signature');
+    }
+    if (signature.length !== this.signatureLength) {
+      throw new Error('Invalid signature');
+    }
+
+    // Every key is checked, so the time taken does not reveal which one matched
+    let valid = false;
+    for (const key of this.keys) {
+      valid = timingSafeEqual(this.digest(key, value, purpose), signature) || valid;
+    }
+    if (!valid) {
+      throw new Error('Invalid signature');
+    }
+    return value;
+  }
+
+  /**
+   * Checks whether a value carries a signature, without verifying it
+   */
+  public isSigned(value: string): boolean {
+    return value.includes(SIGNATURE_SEPARATOR);
+  }
+
+  private digest(key: Buffer, value: string, purpose: SignaturePurpose): Buffer {
+    return createHmac('sha256', key)
+      .update(`${purpose}\0${value}`, 'utf8')
+      .digest()
+      .subarray(0, this.signatureLength);
+  }
+}
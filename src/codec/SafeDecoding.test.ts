@@ -0,0 +1,98 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import {
+  DEFAULT_SAFE_DECODING_LIMITS,
+  TrackDecodeError,
+  checkTrackInputSize,
+  resolveSafeDecodingLimits,
+  sanitizeTrackInfo,
+  stripDangerousKeys,
+} from './SafeDecoding';
+
+const limits = { maxInputSize: 64, maxStringLength: 50 };
+
+function rejection(action: () => unknown): TrackDecodeError {
+  try {
+    action();
+  } catch (error) {
+    expect(error).toBeInstanceOf(TrackDecodeError);
+    return error as TrackDecodeError;
+  }
+  throw new Error('Expected a TrackDecodeError');
+}
+
+describe('resolveSafeDecodingLimits', () => {
+  it('is off unless enabled and fills in default limits', () => {
+    expect(resolveSafeDecodingLimits(undefined)).toBeNull();
+    expect(resolveSafeDecodingLimits(false)).toBeNull();
+    expect(resolveSafeDecodingLimits(true)).toEqual(DEFAULT_SAFE_DECODING_LIMITS);
+    expect(resolveSafeDecodingLimits({ maxStringLength: 5 })).toEqual({ ...DEFAULT_SAFE_DECODING_LIMITS, maxStringLength: 5 });
+  });
+});
+
+describe('checkTrackInputSize', () => {
+  it('measures base64 strings by their decoded size and bytes by their length', () => {
+    expect(() => checkTrackInputSize('A'.repeat(84), limits)).not.toThrow();
+    expect(() => checkTrackInputSize(new Uint8Array(64), limits)).not.toThrow();
+
+    const error = rejection(() => checkTrackInputSize('A'.repeat(88), limits));
+    expect(error.limit).toBe('inputSize');
+    expect(error.message).toBe('Encoded track is 66 bytes, over the 64 byte limit');
+    expect(rejection(() => checkTrackInputSize(new Uint8Array(65), limits)).limit).toBe('inputSize');
+  });
+});
+
+describe('sanitizeTrackInfo', () => {
+  it('keeps known fields and drops everything else', () => {
+    const info = {
+      ...trackInfo({ isrc: 'USUM71200001', artworkUrl: 'https://i' }),
+      sourceData: { albumName: 'Album', previewUrl: null, explicit: true, constructor: 'x' },
+      extra: 'dropped',
+    };
+
+    expect(sanitizeTrackInfo(info, limits)).toEqual({
+      ...trackInfo({ isrc: 'USUM71200001', artworkUrl: 'https://i' }),
+      sourceData: { albumName: 'Album', previewUrl: null, explicit: true },
+    });
+    expect(sanitizeTrackInfo({ ...trackInfo(), isrc: null }, limits)).toEqual(trackInfo());
+  });
+
+  it('rejects strings over the length limit with the field name', () => {
+    const error = rejection(() => sanitizeTrackInfo(trackInfo({ title: 'x'.repeat(51) }), limits));
+
+    expect(error.limit).toBe('stringLength');
+    expect(error.field).toBe('title');
+    expect(error.message).toBe('Track field title is 51 characters, over the 50 character limit');
+    expect(rejection(() => sanitizeTrackInfo({ ...trackInfo(), sourceData: { albumName: 'x'.repeat(51) } }, limits)).field)
+      .toBe('sourceData.albumName');
+  });
+
+  it('rejects fields of the wrong type', () => {
+    const cases: Array<[unknown, string | undefined]> = [
+      [[], undefined],
+      [Object.create({ polluted: true }), undefined],
+      [{ ...trackInfo(), length: '1000' }, 'length'],
+      [{ ...trackInfo(), length: Infinity }, 'length'],
+      [{ ...trackInfo(), isStream: 'false' }, 'isStream'],
+      [{ ...trackInfo(), title: 5 }, 'title'],
+      [{ ...trackInfo(), isrc: 5 }, 'isrc'],
+      [{ ...trackInfo(), sourceData: [] }, 'sourceData'],
+      [{ ...trackInfo(), sourceData: { nested: {} } }, 'sourceData.nested'],
+    ];
+
+    for (const [value, field] of cases) {
+      const error = rejection(() => sanitizeTrackInfo(value, limits));
+      expect(error.limit).toBe('fieldType');
+      expect(error.field).toBe(field);
+    }
+  });
+});
+
+describe('stripDangerousKeys', () => {
+  it('drops prototype keys while parsing JSON', () => {
+    const parsed = JSON.parse('{"a":1,"__proto__":{"polluted":true},"nested":{"constructor":{"prototype":{}}}}', stripDangerousKeys);
+
+    expect(parsed).toEqual({ a: 1, nested: {} });
+    expect(Object.prototype.hasOwnProperty.call(parsed, '__proto__')).toBe(false);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import { SafeDecodingOptions, TrackDecodeLimit, TrackInfo, TrackSourceData } from '../types';
+
+/**
+ * Limits applied when `safeDecoding` is enabled without explicit values
+ */
+export const DEFAULT_SAFE_DECODING_LIMITS: Required<SafeDecodingOptions> = {
+  maxInputSize: 16 * 1024,
+  maxStringLength: 4096,
+};
+
+/**
+ * Keys that can reach an object's prototype when copied with `Object.assign` or a
+ * recursive merge
+ */
+const DANGEROUS_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Required track info fields and their types, in `TrackInfo` order
+ */
+const REQUIRED_FIELDS: Array<[keyof TrackInfo, 'string' | 'number' | 'boolean']> = [
+  ['identifier', 'string'],
+  ['isSeekable', 'boolean'],
+  ['author', 'string'],
+  ['length', 'number'],
+  ['isStream', 'boolean'],
+  ['position', 'number'],
+  ['title', 'string'],
+  ['uri', 'string'],
+  ['sourceName', 'string'],
+];
+const OPTIONAL_STRING_FIELDS = ['artworkUrl', 'isrc'] as const;
+
+/**
+ * Raised by safe decoding when a track exceeds a limit or has a field of the wrong type
+ */
+export class TrackDecodeError extends Error {
+  /** The limit or check that rejected the track */
+  public readonly limit: TrackDecodeLimit;
+  /** The offending track info field, when the rejection is about one */
+  public readonly field?: string;
+
+  constructor(limit: TrackDecodeLimit, message: string, field?: string) {
+    super(message);
+    this.name = 'TrackDecodeError';
+    this.limit = limit;
+    this.field = field;
+  }
+}
+
+/**
+ * Resolves the `safeDecoding` option to limits, or null when safe decoding is off
+ */
+export function resolveSafeDecodingLimits(
+  option: boolean | SafeDecodingOptions | null | undefined
+): Required<SafeDecodingOptions> | null {
+  if (!option) {
+    return null;
+  }
+  return option === true ? { ...DEFAULT_SAFE_DECODING_LIMITS } : { ...DEFAULT_SAFE_DECODING_LIMITS, ...option };
+}
+
+/**
+ * Rejects an encoded track (base64 or raw bytes) larger than `maxInputSize` bytes,
+ * before any of it is decoded
+ */
+export function checkTrackInputSize(input: string | Uint8Array, limits: Required<SafeDecodingOptions>): void {
+  const size = typeof input === 'string' ? Math.floor((input.length * 3) / 4) : input.length;
+  if (size > limits.maxInputSize) {
+    throw new TrackDecodeError(
+      'inputSize',
+      `Encoded track is ${size} bytes, over the ${limits.maxInputSize} byte limit`
+    );
+  }
+}
+
+/**
+ * Rebuilds decoded track info from its known fields only, checking the type of every
+ * field and the length of every string. Unknown and prototype-polluting keys are dropped.
+ */
+export function sanitizeTrackInfo(value: unknown, limits: Required<SafeDecodingOptions>): TrackInfo {
+  if (!isPlainObject(value)) {
+    throw new TrackDecodeError('fieldType', 'Track info must be an object');
+  }
+
+  const info: Record<string, unknown> = {};
+  for (const [field, type] of REQUIRED_FIELDS) {
+    const fieldValue = value[field];
+    if (type === 'string') {
+      info[field] = requireString(fieldValue, field, limits);
+    } else if (type === 'number' && !(typeof fieldValue === 'number' && Number.isFinite(fieldValue))) {
+      throw new TrackDecodeError('fieldType', `Track field ${field} must be a finite number`, field);
+    } else if (type === 'boolean' && typeof fieldValue !== 'boolean') {
+      throw new TrackDecodeError('fieldType', `Track field ${field} must be a boolean`, field);
+    } else {
+      info[field] = fieldValue;
+    }
+  }
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    if (value[field] !== undefined && value[field] !== null) {
+      info[field] = requireString(value[field], field, limits);
+    }
+  }
+
+  if (value.sourceData !== undefined && value.sourceData !== null) {
+    info.sourceData = sanitizeSourceData(value.sourceData, limits);
+  }
+  return info as unknown as TrackInfo;
+}
+
+/**
+ * `JSON.parse` reviver that drops keys able to reach an object's prototype
+ */
+export function stripDangerousKeys(key: string, value: unknown): unknown {
+  return DANGEROUS_KEYS.has(key) ? undefined : value;
+}
+
+/**
+ * Source data is a flat object of strings, numbers, booleans and nulls in every
+ * known source field codec
+ */
+function sanitizeSourceData(value: unknown, limits: Required<SafeDecodingOptions>): TrackSourceData {
+  if (!isPlainObject(value)) {
+    throw new TrackDecodeError('fieldType', 'Track field sourceData must be an object', 'sourceData');
+  }
+
+  const sourceData: Record<string, string | number | boolean | null> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (DANGEROUS_KEYS.has(key)) {
+      continue;
+    }
+    const path = `sourceData.${key}`;
+    if (typeof field === 'string') {
+      sourceData[key] = requireString(field, path, limits);
+    } else if (field === null || typeof field === 'boolean' || (typeof field === 'number' && Number.isFinite(field))) {
+      sourceData[key] = field;
+    } else {
+      throw new TrackDecodeError('fieldType', `Track field ${path} must be a string, number, boolean or null`, path);
+    }
+  }
+  return sourceData as unknown as TrackSourceData;
+}
+
+function requireString(value: unknown, field: string, limits: Required<SafeDecodingOptions>): string {
+  if (typeof value !== 'string') {
+    throw new TrackDecodeError('fieldType', `Track field ${field} must be a string`, field);
+  }
+  if (value.length > limits.maxStringLength) {
+    throw new TrackDecodeError(
+      'stringLength',
+      `Track field ${field} is ${value.length} characters, over the ${limits.maxStringLength} character limit`,
+      field
+    );
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
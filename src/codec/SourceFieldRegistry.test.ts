@@ -0,0 +1,75 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { DataReader } from './DataReader';
+import { DataWriter } from './DataWriter';
+import { decodeTrackBytes, encodeTrackBytes } from './TrackCodec';
+import { SourceFieldCodec, SourceFieldRegistry, createDefaultSourceFieldRegistry } from './SourceFieldRegistry';
+
+describe('SourceFieldRegistry', () => {
+  it('round-trips the probe info of HTTP tracks', () => {
+    const info = trackInfo({ sourceName: 'http', sourceData: { probeInfo: 'mp3' } });
+    expect(decodeTrackBytes(encodeTrackBytes(info)).info).toEqual(info);
+  });
+
+  it('round-trips the LavaSrc fields of mirrored tracks', () => {
+    const info = trackInfo({ sourceName: 'spotify',
+      sourceData: {
+        albumName: 'Album',
+        albumUrl: 'https://open.spotify.com/album/1',
+        artistUrl: null,
+        artistArtworkUrl: null,
+        previewUrl: 'https://p.scdn.co/mp3-preview/1',
+        isPreview: false,
+      },
+    });
+    expect(decodeTrackBytes(encodeTrackBytes(info)).info).toEqual(info);
+  });
+
+  it('keeps the fields of unregistered sources as opaque bytes that survive re-encoding', () => {
+    const custom = new SourceFieldRegistry().register<{ extra: string }>('custom', {
+      read: reader => ({ extra: reader.readUTF() }),
+      write: (writer, data) => writer.writeUTF(data?.extra ?? ''),
+    });
+    const bytes = encodeTrackBytes(trackInfo({ sourceName: 'custom', sourceData: { extra: 'payload' } as never }), 3, custom);
+
+    const decoded = decodeTrackBytes(bytes).info;
+    expect(decoded.sourceData).toEqual({ raw: expect.any(String) });
+    expect(encodeTrackBytes(decoded)).toEqual(bytes);
+    expect(decodeTrackBytes(bytes, custom).info.sourceData).toEqual({ extra: 'payload' });
+  });
+
+  it('falls back to opaque bytes when the fields do not match the codec', () => {
+    const registry = createDefaultSourceFieldRegistry().register('http', {
+      read: reader => ({ probeInfo: reader.readUTF() }),
+      write: writer => {
+        writer.writeUTF('mp3');
+        writer.writeInt(42);
+      },
+    });
+    const bytes = encodeTrackBytes(trackInfo({ sourceName: 'http' }), 3, registry);
+
+    const decoded = decodeTrackBytes(bytes).info;
+    expect(decoded.sourceData).toEqual({ raw: expect.any(String) });
+    expect(decoded.position).toBe(0);
+    expect(encodeTrackBytes(decoded)).toEqual(bytes);
+  });
+
+  it('writes no fields for sources without a codec or data', () => {
+    const info = trackInfo({ sourceName: 'youtube' });
+    expect(decodeTrackBytes(encodeTrackBytes(info)).info.sourceData).toBeUndefined();
+  });
+
+  it('registers, clones and unregisters codecs independently', () => {
+    const codec: SourceFieldCodec<{ value: number }> = {
+      read: (reader: DataReader) => ({ value: reader.readInt() }),
+      write: (writer: DataWriter, data) => writer.writeInt(data?.value ?? 0),
+    };
+    const registry = new SourceFieldRegistry().register(['a', 'b'], codec);
+    const copy = registry.clone();
+
+    expect(registry.unregister('a')).toBe(true);
+    expect(registry.has('a')).toBe(false);
+    expect(copy.has('a')).toBe(true);
+    expect(copy.getSourceNames()).toEqual(['a', 'b']);
+    expect(registry.get('b')).toBe(codec);
+  });
+});
@@ -0,0 +1,168 @@
+import { ProbeSourceData, LavaSrcSourceData, OpaqueSourceData, TrackSourceData } from '../types';
+import { DataReader } from './DataReader';
+import { DataWriter } from './DataWriter';
+import * as base64 from 'base64-js';
+
+/**
+ * Reads and writes the fields a source manager appends after the common track fields
+ */
+export interface SourceFieldCodec<T extends object = TrackSourceData> {
+  /** Reads the source fields, stopping before the trailing position */
+  read(reader: DataReader): T;
+  /** Writes the source fields; `data` is undefined when the track carries none */
+  write(writer: DataWriter, data: T | undefined): void;
+}
+
+/**
+ * Probe info written by Lavaplayer's HTTP and local source managers (e.g. "mp3" or "mpegts|...")
+ */
+export const probeSourceFields: SourceFieldCodec<ProbeSourceData> = {
+  read(reader) {
+    return { probeInfo: reader.readUTF() };
+  },
+  write(writer, data) {
+    writer.writeUTF(data?.probeInfo ?? '');
+  },
+};
+
+/**
+ * Album, artist and preview fields written by LavaSrc 4.x mirrored sources
+ */
+export const lavaSrcSourceFields: SourceFieldCodec<LavaSrcSourceData> = {
+  read(reader) {
+    return {
+      albumName: reader.readNullableUTF(),
+      albumUrl: reader.readNullableUTF(),
+      artistUrl: reader.readNullableUTF(),
+      artistArtworkUrl: reader.readNullableUTF(),
+      previewUrl: reader.readNullableUTF(),
+      isPreview: reader.readBoolean(),
+    };
+  },
+  write(writer, data) {
+    writer.writeNullableUTF(data?.albumName);
+    writer.writeNullableUTF(data?.albumUrl);
+    writer.writeNullableUTF(data?.artistUrl);
+    writer.writeNullableUTF(data?.artistArtworkUrl);
+    writer.writeNullableUTF(data?.previewUrl);
+    writer.writeBoolean(data?.isPreview ?? false);
+  },
+};
+
+/**
+ * Checks whether source data holds the raw bytes of an unregistered source
+ */
+export function isOpaqueSourceData(data: TrackSourceData): data is OpaqueSourceData {
+  return typeof (data as OpaqueSourceData).raw === 'string';
+}
+
+/**
+ * Registry of source field codecs keyed by `TrackInfo.sourceName`
+ */
+export class SourceFieldRegistry {
+  private codecs = new Map<string, SourceFieldCodec<object>>();
+
+  /**
+   * Registers a codec for one or more source names
+   */
+  public register<T extends object>(sourceNames: string | string[], codec: SourceFieldCodec<T>): this {
+    const names = Array.isArray(sourceNames) ? sourceNames : [sourceNames];
+    names.forEach(name => this.codecs.set(name, codec));
+    return this;
+  }
+
+  /**
+   * Removes the codec for a source name
+   */
+  public unregister(sourceName: string): boolean {
+    return this.codecs.delete(sourceName);
+  }
+
+  /**
+   * Gets the codec for a source name, typed as the data the caller registered it with
+   */
+  public get<T extends object = TrackSourceData>(sourceName: string): SourceFieldCodec<T> | undefined {
+    return this.codecs.get(sourceName) as SourceFieldCodec<T> | undefined;
+  }
+
+  /**
+   * Checks whether a source name has a codec
+   */
+  public has(sourceName: string): boolean {
+    return this.codecs.has(sourceName);
+  }
+
+  /**
+   * Gets all registered source names
+   */
+  public getSourceNames(): string[] {
+    return Array.from(this.codecs.keys());
+  }
+
+  /**
+   * Creates an independent copy of this registry
+   */
+  public clone(): SourceFieldRegistry {
+    const copy = new SourceFieldRegistry();
+    this.codecs.forEach((codec, name) => copy.register(name, codec));
+    return copy;
+  }
+
+  /**
+   * Writes the source fields of a track; opaque data is written back verbatim
+   */
+  public writeFields(writer: DataWriter, sourceName: string, data: TrackSourceData | undefined): void {
+    if (data && isOpaqueSourceData(data)) {
+      writer.writeBytes(base64.toByteArray(data.raw));
+      return;
+    }
+
+    const codec = this.get(sourceName);
+    if (codec) {
+      codec.write(writer, data);
+    }
+  }
+
+  /**
+   * Reads the source fields of a track up to the given end offset.
+   * Sources without a codec, or whose bytes do not match their codec, are kept as opaque bytes.
+   */
+  public readFields(reader: DataReader, sourceName: string, end: number): TrackSourceData | undefined {
+    const start = reader.position;
+    const codec = this.get(sourceName);
+
+    if (codec) {
+      try {
+        const data = codec.read(reader);
+        if (reader.position === end) {
+          return data;
+        }
+      } catch {
+        // Fall through and keep the bytes as they are
+      }
+      reader.seek(start);
+    }
+
+    if (end === start) {
+      return undefined;
+    }
+    return { raw: base64.fromByteArray(reader.readBytes(end - start)) };
+  }
+}
+
+/**
+ * Creates a registry with codecs for the Lavaplayer and LavaSrc sources that append fields
+ */
+export function createDefaultSourceFieldRegistry(): SourceFieldRegistry {
+  return new SourceFieldRegistry()
+    .register(['http', 'local'], probeSourceFields)
+    .register(
+      ['spotify', 'applemusic', 'deezer', 'yandexmusic', 'vkmusic', 'tidal', 'qobuz'],
+      lavaSrcSourceFields
+    );
+}
+
+/**
+ * Registry used by encoders that are not given their own
+ */
+export const defaultSourceFieldRegistry = createDefaultSourceFieldRegistry();
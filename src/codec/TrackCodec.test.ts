@@ -0,0 +1,79 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { DataReader } from './DataReader';
+import { DataWriter } from './DataWriter';
+import { decodeTrackBytes, encodeTrackBytes } from './TrackCodec';
+
+// Encoded by Lavalink 3 (track info version 2)
+const LAVALINK_TRACK =
+  'QAAAjQIAJVJpY2sgQXN0bGV5IC0gTmV2ZXIgR29ubmEgR2l2ZSBZb3UgVXAADlJpY2tBc3RsZXlWRVZPAAAAAAADPCAAC2RRdzR3OVdnWGNRAAEAK2h0dHBzOi8vd3d3LnlvdXR1YmUuY29tL3dhdGNoP3Y9ZFF3NHc5V2dYY1EAB3lvdXR1YmUAAAAAAAAAAA==';
+
+describe('Lavaplayer track codec', () => {
+  it('decodes a track encoded by Lavalink', () => {
+    const { version, info } = decodeTrackBytes(Buffer.from(LAVALINK_TRACK, 'base64'));
+
+    expect(version).toBe(2);
+    expect(info).toEqual({
+      identifier: 'dQw4w9WgXcQ',
+      isSeekable: true,
+      author: 'RickAstleyVEVO',
+      length: 212000,
+      isStream: false,
+      position: 0,
+      title: 'Rick Astley - Never Gonna Give You Up',
+      uri: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      sourceName: 'youtube',
+    });
+  });
+
+  it('re-encodes a Lavalink track byte for byte', () => {
+    const { version, info } = decodeTrackBytes(Buffer.from(LAVALINK_TRACK, 'base64'));
+    expect(Buffer.from(encodeTrackBytes(info, version)).toString('base64')).toBe(LAVALINK_TRACK);
+  });
+
+  it('round-trips version 3 fields', () => {
+    const info = trackInfo({ artworkUrl: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg', isrc: 'GBARL9300135', position: 1500 });
+    const decoded = decodeTrackBytes(encodeTrackBytes(info, 3));
+
+    expect(decoded.version).toBe(3);
+    expect(decoded.info).toEqual(info);
+  });
+
+  it('drops the fields older versions cannot hold', () => {
+    const info = trackInfo({ artworkUrl: 'https://example.com/a.jpg', isrc: 'GBARL9300135' });
+
+    expect(decodeTrackBytes(encodeTrackBytes(info, 2)).info).toEqual(trackInfo());
+    expect(decodeTrackBytes(encodeTrackBytes(info, 1))).toEqual({ version: 1, info: trackInfo({ uri: '' }) });
+  });
+
+  it('round-trips streams and non-ASCII text in modified UTF-8', () => {
+    const info = trackInfo({
+      title: 'Café \u0000 — 日本語 🎵',
+      author: 'Ünïcödé',
+      isStream: true,
+      isSeekable: false,
+      length: 0,
+    });
+    expect(decodeTrackBytes(encodeTrackBytes(info)).info).toEqual(info);
+  });
+
+  it('encodes NUL and supplementary characters the way Java does', () => {
+    const writer = new DataWriter();
+    writer.writeUTF('\u0000🎵');
+    // NUL as two bytes, and each surrogate of the emoji as three bytes
+    expect(Array.from(writer.toUint8Array())).toEqual([0, 8, 0xc0, 0x80, 0xed, 0xa0, 0xbc, 0xed, 0xbe, 0xb5]);
+    expect(new DataReader(writer.toUint8Array()).readUTF()).toBe('\u0000🎵');
+  });
+
+  it('rejects truncated messages', () => {
+    const bytes = encodeTrackBytes(trackInfo());
+    expect(() => decodeTrackBytes(bytes.subarray(0, bytes.length - 4))).toThrow();
+    expect(() => decodeTrackBytes(bytes.subarray(0, 2))).toThrow('Unexpected end of track data');
+  });
+
+  it('rejects unsupported track info versions', () => {
+    const bytes = encodeTrackBytes(trackInfo());
+    bytes[4] = 9;
+    expect(() => decodeTrackBytes(bytes)).toThrow('Unsupported track info version 9');
+    expect(() => encodeTrackBytes(trackInfo(), 4 as never)).toThrow('Unsupported track info version 4');
+  });
+});
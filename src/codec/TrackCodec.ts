@@ -0,0 +1,153 @@
+import { TrackInfo, TrackInfoVersion } from '../types';
+import { DataReader } from './DataReader';
+import { DataWriter } from './DataWriter';
+import { SourceFieldRegistry, defaultSourceFieldRegistry } from './SourceFieldRegistry';
+
+/**
+ * Message flag marking that the body starts with a track info version byte
+ */
+export const TRACK_INFO_VERSIONED = 1;
+
+/**
+ * Track info version written by current Lavaplayer releases
+ */
+export const TRACK_INFO_VERSION: TrackInfoVersion = 3;
+
+/**
+ * A decoded Lavaplayer track message
+ */
+export interface DecodedTrackMessage {
+  /** The track info version the message was written with */
+  version: TrackInfoVersion;
+  /** The decoded track info */
+  info: TrackInfo;
+}
+
+/**
+ * Writes a track as a Lavaplayer message (header, version byte, fields and position)
+ */
+export function writeTrackMessage(
+  writer: DataWriter,
+  trackInfo: TrackInfo,
+  version: TrackInfoVersion = TRACK_INFO_VERSION,
+  sourceFields: SourceFieldRegistry = defaultSourceFieldRegistry
+): void {
+  assertSupportedVersion(version);
+
+  const headerPosition = writer.length;
+  writer.writeInt(0);
+  const bodyStart = writer.length;
+
+  // Version 1 predates the versioned flag, so it carries no version byte
+  const flags = version > 1 ? TRACK_INFO_VERSIONED : 0;
+  if (flags & TRACK_INFO_VERSIONED) {
+    writer.writeByte(version);
+  }
+
+  writer.writeUTF(trackInfo.title);
+  writer.writeUTF(trackInfo.author);
+  writer.writeLong(trackInfo.length);
+  writer.writeUTF(trackInfo.identifier);
+  writer.writeBoolean(trackInfo.isStream);
+
+  if (version >= 2) {
+    writer.writeNullableUTF(trackInfo.uri || null);
+  }
+  if (version >= 3) {
+    writer.writeNullableUTF(trackInfo.artworkUrl ?? null);
+    writer.writeNullableUTF(trackInfo.isrc ?? null);
+  }
+
+  writer.writeUTF(trackInfo.sourceName);
+  sourceFields.writeFields(writer, trackInfo.sourceName, trackInfo.sourceData);
+  writer.writeLong(trackInfo.position);
+
+  const size = writer.length - bodyStart;
+  writer.setInt(headerPosition, size | (flags << 30));
+}
+
+/**
+ * Reads a Lavaplayer track message written by any supported track info version
+ */
+export function readTrackMessage(
+  reader: DataReader,
+  sourceFields: SourceFieldRegistry = defaultSourceFieldRegistry
+): DecodedTrackMessage {
+  const header = reader.readInt();
+  const flags = (header >>> 30) & 0x03;
+  const size = header & 0x3fffffff;
+
+  if (size > reader.remaining) {
+    throw new Error(`Track message size ${size} exceeds the available ${reader.remaining} bytes`);
+  }
+
+  const bodyEnd = reader.position + size;
+  reader.limit(bodyEnd);
+
+  const version = flags & TRACK_INFO_VERSIONED ? reader.readByte() : 1;
+  assertSupportedVersion(version);
+
+  const title = reader.readUTF();
+  const author = reader.readUTF();
+  const length = reader.readLong();
+  const identifier = reader.readUTF();
+  const isStream = reader.readBoolean();
+  const uri = version >= 2 ? reader.readNullableUTF() : null;
+  const artworkUrl = version >= 3 ? reader.readNullableUTF() : null;
+  const isrc = version >= 3 ? reader.readNullableUTF() : null;
+  const sourceName = reader.readUTF();
+
+  // Source managers may append their own fields, but the position is always last
+  const positionOffset = bodyEnd - 8;
+  if (positionOffset < reader.position) {
+    throw new Error('Unexpected end of track data');
+  }
+  const sourceData = sourceFields.readFields(reader, sourceName, positionOffset);
+  const position = reader.readLong();
+
+  const info: TrackInfo = {
+    identifier,
+    isSeekable: !isStream,
+    author,
+    length,
+    isStream,
+    position,
+    title,
+    uri: uri ?? '',
+    sourceName,
+  };
+  if (artworkUrl !== null) info.artworkUrl = artworkUrl;
+  if (isrc !== null) info.isrc = isrc;
+  if (sourceData) info.sourceData = sourceData;
+
+  return { version: version as TrackInfoVersion, info };
+}
+
+/**
+ * Encodes track info into the raw bytes of a Lavaplayer track message
+ */
+export function encodeTrackBytes(
+  trackInfo: TrackInfo,
+  version: TrackInfoVersion = TRACK_INFO_VERSION,
+  sourceFields: SourceFieldRegistry = defaultSourceFieldRegistry
+): Uint8Array {
+  const writer = new DataWriter();
+  writeTrackMessage(writer, trackInfo, version, sourceFields);
+  return writer.toUint8Array();
+}
+
+/**
+ * Decodes the raw bytes of a Lavaplayer track message
+ */
+export function decodeTrackBytes(
+  bytes: Uint8Array,
+  sourceFields: SourceFieldRegistry = defaultSourceFieldRegistry
+): DecodedTrackMessage {
+  return readTrackMessage(new DataReader(bytes), sourceFields);
+}
+
+function assertSupportedVersion(version: number): void {
+  if (version < 1 || version > 3) {
+    throw new Error(`Unsupported track info version ${version}`);
+  }
+}
@@ -0,0 +1,42 @@
+import { TrackFormat, TrackInfo } from '../types';
+import { stripDangerousKeys } from './SafeDecoding';
+
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+
+/**
+ * Sniffs whether decoded base64 bytes hold a Lavaplayer message or a legacy JSON track
+ */
+export function detectTrackFormat(bytes: Uint8Array, length: number = bytes.length): TrackFormat {
+  if (length >= 4) {
+    const header = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+    const flags = header >>> 30;
+    const size = header & 0x3fffffff;
+
+    // A legacy JSON header would need a message size of almost 1 GB, so the two never overlap
+    if (flags <= 1 && size > 0 && size <= length - 4) {
+      return 'lavaplayer';
+    }
+  }
+
+  if (length >= 2 && bytes[0] === OPEN_BRACE && bytes[length - 1] === CLOSE_BRACE) {
+    return 'legacy-json';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Decodes a track produced by the JSON-in-base64 encoder of earlier releases.
+ * `__proto__`, `constructor` and `prototype` keys are dropped while parsing.
+ */
+export function decodeLegacyTrackBytes(bytes: Uint8Array): TrackInfo {
+  const jsonString = new TextDecoder().decode(bytes);
+  const data = JSON.parse(jsonString, stripDangerousKeys);
+
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Legacy track data must be a JSON object');
+  }
+
+  return data as TrackInfo;
+}
@@ -0,0 +1,50 @@
+import * as base64 from 'base64-js';
+
+/**
+ * Encodes bytes as unpadded URL-safe base64
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return base64
+    .fromByteArray(bytes)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes standard or URL-safe base64, with or without padding
+ */
+export function fromBase64(value: string): Uint8Array {
+  const length = unpaddedBase64Length(value);
+  return base64.toByteArray(value.substring(0, length) + '='.repeat((4 - (length % 4)) % 4));
+}
+
+/**
+ * Returns the length of standard or URL-safe base64 without its padding, throwing if the
+ * string has other characters or is not a length base64 can have
+ */
+export function unpaddedBase64Length(value: string): number {
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(value)) {
+    throw new Error('Invalid base64 string');
+  }
+
+  let length = value.length;
+  while (length > 0 && value.charCodeAt(length - 1) === 0x3d) {
+    length--;
+  }
+  if (length % 4 === 1 || (length < value.length && value.length % 4 !== 0)) {
+    throw new Error('Invalid base64 string length');
+  }
+  return length;
+}
+
+/**
+ * Decodes unpadded URL-safe base64
+ */
+export function fromBase64Url(value: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error('Invalid base64url string');
+  }
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64.toByteArray(padded + '='.repeat((4 - (padded.length % 4)) % 4));
+}
@@ -0,0 +1,36 @@
+/**
+ * Binary codec for the Lavaplayer track format used by Lavalink
+ */
+
+export { DataReader } from './DataReader';
+export { DataWriter, modifiedUtf8Length } from './DataWriter';
+export { toBase64Url, fromBase64Url, fromBase64 } from './base64url';
+export {
+  TRACK_INFO_VERSIONED,
+  TRACK_INFO_VERSION,
+  DecodedTrackMessage,
+  writeTrackMessage,
+  readTrackMessage,
+  encodeTrackBytes,
+  decodeTrackBytes,
+} from './TrackCodec';
+export { BatchTrackCodec } from './BatchTrackCodec';
+export { HmacSigner, SignaturePurpose, SIGNATURE_SEPARATOR } from './HmacSigner';
+export { detectTrackFormat, decodeLegacyTrackBytes } from './TrackFormat';
+export {
+  DEFAULT_SAFE_DECODING_LIMITS,
+  TrackDecodeError,
+  resolveSafeDecodingLimits,
+  checkTrackInputSize,
+  sanitizeTrackInfo,
+  stripDangerousKeys,
+} from './SafeDecoding';
+export {
+  SourceFieldCodec,
+  SourceFieldRegistry,
+  probeSourceFields,
+  lavaSrcSourceFields,
+  isOpaqueSourceData,
+  createDefaultSourceFieldRegistry,
+  defaultSourceFieldRegistry,
+} from './SourceFieldRegistry';
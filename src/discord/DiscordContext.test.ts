@@ -0,0 +1,97 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { toBase64Url } from '../codec';
+import { DiscordContext } from '../types';
+import {
+  DISCORD_USER_DATA_KEY,
+  extractDiscordContext,
+  unwrapDiscordContext,
+  wrapDiscordContext,
+} from './DiscordContext';
+import { DiscordTrackEncoder } from './DiscordTrackEncoder';
+
+const context: DiscordContext = {
+  requester: { id: '123456789012345678', username: 'rick', discriminator: '0001' },
+  guildId: '234567890123456789',
+  channelId: '345678901234567890',
+};
+
+function envelope(json: string): string {
+  return `QAAAjQIAJVJpY2s.${toBase64Url(new TextEncoder().encode(json))}`;
+}
+
+describe('wrapDiscordContext and unwrapDiscordContext', () => {
+  it('round-trip a context through the envelope', () => {
+    const wrapped = wrapDiscordContext('QAAAjQIAJVJpY2s=', context);
+
+    expect(wrapped).toMatch(/^QAAAjQIAJVJpY2s=\.[A-Za-z0-9_-]+$/);
+    expect(unwrapDiscordContext(wrapped)).toEqual({ encoded: 'QAAAjQIAJVJpY2s=', context });
+  });
+
+  it('returns a plain track string without a context', () => {
+    expect(unwrapDiscordContext('QAAAjQIAJVJpY2s=')).toEqual({ encoded: 'QAAAjQIAJVJpY2s=', context: null });
+  });
+
+  it('keeps a track string containing the separator whole', () => {
+    expect(unwrapDiscordContext('track.v2')).toEqual({ encoded: 'track.v2', context: null });
+
+    const wrapped = wrapDiscordContext('track.v2', context);
+    expect(unwrapDiscordContext(wrapped)).toEqual({ encoded: 'track.v2', context });
+  });
+
+  it('ignores a malformed envelope', () => {
+    for (const value of [
+      'QAAAjQIAJVJpY2s.not+base64url',
+      envelope('{"requester":'),
+      envelope('"a string"'),
+      envelope('null'),
+    ]) {
+      expect(unwrapDiscordContext(value)).toEqual({ encoded: value, context: null });
+    }
+  });
+
+  it('drops context fields with the wrong type', () => {
+    const value = envelope(JSON.stringify({
+      requester: { id: 42, username: 'rick' },
+      guildId: '234567890123456789',
+      channelId: ['345678901234567890'],
+      extra: true,
+    }));
+
+    expect(unwrapDiscordContext(value).context).toEqual({ guildId: '234567890123456789' });
+  });
+});
+
+describe('extractDiscordContext', () => {
+  it('reads the context stored in user data', () => {
+    expect(extractDiscordContext({ [DISCORD_USER_DATA_KEY]: context, other: 1 })).toEqual(context);
+  });
+
+  it('returns null without a stored context', () => {
+    expect(extractDiscordContext(undefined)).toBeNull();
+    expect(extractDiscordContext({})).toBeNull();
+    expect(extractDiscordContext({ [DISCORD_USER_DATA_KEY]: 'rick' })).toBeNull();
+  });
+});
+
+describe('DiscordTrackEncoder context storage', () => {
+  const requester = context.requester!;
+
+  it('stores the context in user data', () => {
+    const encoder = new DiscordTrackEncoder({ contextStorage: 'userData' });
+    const track = encoder.encodeDiscordTrack(trackInfo(), requester, context.guildId!, context.channelId!);
+
+    expect(track.track).not.toContain('.');
+    expect(track.userData).toEqual({ [DISCORD_USER_DATA_KEY]: context });
+    expect(encoder.decodeDiscordTrack(encoder.toLavalinkTrack(track)).info).toMatchObject(context);
+  });
+
+  it('appends the context to the encoded track in an envelope', () => {
+    const encoder = new DiscordTrackEncoder({ contextStorage: 'envelope' });
+    const track = encoder.encodeDiscordTrack(trackInfo(), requester, context.guildId!, context.channelId!);
+    const { encoded, context: stored } = unwrapDiscordContext(track.track);
+
+    expect(stored).toEqual(context);
+    expect(encoder.decodeDiscordTrack(track.track).info).toMatchObject({ ...trackInfo(), ...context });
+    expect(encoder.toLavalinkTrack(track).encoded).toBe(encoded);
+  });
+});
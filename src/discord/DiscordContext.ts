@@ -0,0 +1,85 @@
+import { DiscordContext } from '../types';
+import { toBase64Url, fromBase64Url } from '../codec';
+
+/**
+ * Key of the Discord context inside a track's v4 `userData`
+ */
+export const DISCORD_USER_DATA_KEY = 'discord';
+
+/**
+ * Separates the Lavaplayer string from the context in an envelope; never part of standard base64
+ */
+const ENVELOPE_SEPARATOR = '.';
+
+/**
+ * Appends a Discord context to an encoded track as `<encoded>.<base64url JSON>`
+ */
+export function wrapDiscordContext(encoded: string, context: DiscordContext): string {
+  const json = JSON.stringify(context);
+  return `${encoded}${ENVELOPE_SEPARATOR}${toBase64Url(new TextEncoder().encode(json))}`;
+}
+
+/**
+ * Splits an enveloped track into its Lavaplayer string and Discord context; a value whose
+ * suffix is not a valid context is returned whole
+ */
+export function unwrapDiscordContext(value: string): {
+  encoded: string;
+  context: DiscordContext | null;
+} {
+  const separator = value.lastIndexOf(ENVELOPE_SEPARATOR);
+  if (separator === -1) {
+    return { encoded: value, context: null };
+  }
+
+  let context: DiscordContext | null;
+  try {
+    const json = new TextDecoder().decode(fromBase64Url(value.substring(separator + 1)));
+    context = sanitizeDiscordContext(JSON.parse(json));
+  } catch {
+    context = null;
+  }
+
+  return context
+    ? { encoded: value.substring(0, separator), context }
+    : { encoded: value, context: null };
+}
+
+/**
+ * Reads the Discord context from a track's v4 `userData`
+ */
+export function extractDiscordContext(userData: Record<string, any> | undefined): DiscordContext | null {
+  if (!userData) {
+    return null;
+  }
+  return sanitizeDiscordContext(userData[DISCORD_USER_DATA_KEY]);
+}
+
+/**
+ * Keeps only well-typed Discord context fields from untrusted data
+ */
+function sanitizeDiscordContext(value: unknown): DiscordContext | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const data = value as Record<string, any>;
+  const context: DiscordContext = {};
+  const requester = data.requester;
+
+  if (requester && typeof requester.id === 'string' && typeof requester.username === 'string') {
+    context.requester = {
+      id: requester.id,
+      username: requester.username,
+      ...(typeof requester.discriminator === 'string' && { discriminator: requester.discriminator }),
+    };
+  }
+  if (typeof data.guildId === 'string') {
+    context.guildId = data.guildId;
+  }
+  if (typeof data.channelId === 'string') {
+    context.channelId = data.channelId;
+  }
+
+  return context;
+}
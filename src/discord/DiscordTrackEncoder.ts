@@ -8,8 +8,19 @@ import {
   PlaylistInfo, 
   Track,
   LavalinkTrack,
-  LavalinkPlaylist
+  LavalinkPlaylist,
+  LavalinkTrackV4,
+  DiscordContext,
+  DiscordContextStorage,
+  DiscordEncoderOptions,
+  SourceTrackData
 } from '../types';
+import {
+  DISCORD_USER_DATA_KEY,
+  wrapDiscordContext,
+  unwrapDiscordContext,
+  extractDiscordContext,
+} from './DiscordContext';
 
 /**
  * Discord-specific track and playlist encoder with user and guild information
@@ -17,10 +28,12 @@ import {
 export class DiscordTrackEncoder {
   private trackEncoder: TrackEncoder;
   private playlistEncoder: PlaylistEncoder;
+  private contextStorage: DiscordContextStorage;
 
-  constructor() {
-    this.trackEncoder = new TrackEncoder();
-    this.playlistEncoder = new PlaylistEncoder();
+  constructor(options: DiscordEncoderOptions = {}) {
+    this.trackEncoder = new TrackEncoder(options);
+    this.playlistEncoder = new PlaylistEncoder(options);
+    this.contextStorage = options.contextStorage ?? 'memory';
   }
 
   /**
@@ -36,19 +49,17 @@ export class DiscordTrackEncoder {
     guildId: string,
     channelId: string
   ): DiscordTrack {
+    const encodedTrack = this.trackEncoder.encodeTrack(trackInfo);
+
+    // The encoded info carries the ISRC as the isrc policy left it
     const discordTrackInfo: DiscordTrackInfo = {
-      ...trackInfo,
+      ...encodedTrack.info,
       requester,
       guildId,
       channelId,
     };
 
-    const encodedTrack = this.trackEncoder.encodeTrack(trackInfo);
-
-    return {
-      track: encodedTrack.track,
-      info: discordTrackInfo,
-    };
+    return this.attachContext(encodedTrack.track, discordTrackInfo);
   }
 
   /**
@@ -65,17 +76,16 @@ export class DiscordTrackEncoder {
     guildId: string,
     channelId: string
   ): DiscordPlaylist {
-    const discordTracks: DiscordTrack[] = tracks.map(track => ({
-      track: track.track,
-      info: {
+    const encodedPlaylist = this.playlistEncoder.encodePlaylist(playlistInfo, tracks);
+
+    const discordTracks: DiscordTrack[] = encodedPlaylist.tracks.map(track =>
+      this.attachContext(track.track, {
         ...track.info,
         requester,
         guildId,
         channelId,
-      },
-    }));
-
-    const encodedPlaylist = this.playlistEncoder.encodePlaylist(playlistInfo, tracks);
+      })
+    );
 
     return {
       info: encodedPlaylist.info,
@@ -84,6 +94,63 @@ export class DiscordTrackEncoder {
     };
   }
 
+  /**
+   * Creates a Discord track for a registered source; the duration is in the source's duration unit
+   */
+  public createDiscordSourceTrack(
+    sourceName: string,
+    identifier: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    const trackInfo = this.buildSourceTrackInfo(
+      sourceName,
+      { identifier, title, author, duration },
+      additionalInfo
+    );
+
+    return this.encodeDiscordTrack(trackInfo, requester, guildId, channelId);
+  }
+
+  /**
+   * Creates a Discord playlist for a registered source; durations are in the source's duration unit
+   */
+  public createDiscordSourcePlaylist(
+    sourceName: string,
+    name: string,
+    trackData: SourceTrackData[],
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: Track[] = trackData.map(track => ({
+      track: '', // Will be encoded
+      info: this.buildSourceTrackInfo(sourceName, track),
+    }));
+
+    return this.encodeDiscordPlaylist(
+      { name, selectedTrack },
+      tracks,
+      requester,
+      guildId,
+      channelId
+    );
+  }
+
   /**
    * Creates a Discord track from YouTube data
    */
@@ -101,20 +168,9 @@ export class DiscordTrackEncoder {
     channelId: string,
     additionalInfo: Partial<TrackInfo> = {}
   ): DiscordTrack {
-    const trackInfo: TrackInfo = {
-      identifier: videoId,
-      title,
-      author,
-      length: duration * 1000, // Convert seconds to milliseconds
-      uri: `https://www.youtube.com/watch?v=${videoId}`,
-      isSeekable: duration > 0,
-      isStream: duration === 0,
-      position: 0,
-      sourceName: 'youtube',
-      ...additionalInfo,
-    };
-
-    return this.encodeDiscordTrack(trackInfo, requester, guildId, channelId);
+    return this.createDiscordSourceTrack(
+      'youtube', videoId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
   }
 
   /**
@@ -134,20 +190,9 @@ export class DiscordTrackEncoder {
     channelId: string,
     additionalInfo: Partial<TrackInfo> = {}
   ): DiscordTrack {
-    const trackInfo: TrackInfo = {
-      identifier: trackId,
-      title,
-      author,
-      length: duration,
-      uri: `https://open.spotify.com/track/${trackId}`,
-      isSeekable: duration > 0,
-      isStream: duration === 0,
-      position: 0,
-      sourceName: 'spotify',
-      ...additionalInfo,
-    };
-
-    return this.encodeDiscordTrack(trackInfo, requester, guildId, channelId);
+    return this.createDiscordSourceTrack(
+      'spotify', trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
   }
 
   /**
@@ -167,20 +212,184 @@ export class DiscordTrackEncoder {
     channelId: string,
     additionalInfo: Partial<TrackInfo> = {}
   ): DiscordTrack {
-    const trackInfo: TrackInfo = {
-      identifier: trackId,
-      title,
-      author,
-      length: duration,
-      uri: `https://soundcloud.com/${author}/${title}`,
-      isSeekable: duration > 0,
-      isStream: duration === 0,
-      position: 0,
-      sourceName: 'soundcloud',
-      ...additionalInfo,
-    };
+    return this.createDiscordSourceTrack(
+      'soundcloud', trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
 
-    return this.encodeDiscordTrack(trackInfo, requester, guildId, channelId);
+  /**
+   * Creates a Discord track from Apple Music data
+   */
+  public createDiscordAppleMusicTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.createDiscordSourceTrack(
+      'applemusic', trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  /**
+   * Creates a Discord track from Deezer data
+   */
+  public createDiscordDeezerTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.createDiscordSourceTrack(
+      'deezer', trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  /**
+   * Creates a Discord track from Bandcamp data
+   */
+  public createDiscordBandcampTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.createDiscordSourceTrack(
+      'bandcamp', trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  /**
+   * Creates a Discord track from Twitch channels
+   */
+  public createDiscordTwitchTrack(
+    channel: string,
+    title: string,
+    author: string,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.createDiscordSourceTrack(
+      'twitch', channel, title, author, 0, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  /**
+   * Creates a Discord track from Vimeo data
+   */
+  public createDiscordVimeoTrack(
+    videoId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.createDiscordSourceTrack(
+      'vimeo', videoId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  /**
+   * Creates a Discord track from Yandex Music data
+   */
+  public createDiscordYandexMusicTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.createDiscordSourceTrack(
+      'yandexmusic', trackId, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  /**
+   * Creates a Discord track from direct media URLs
+   */
+  public createDiscordHttpTrack(
+    url: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.createDiscordSourceTrack(
+      'http', url, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
+  }
+
+  /**
+   * Creates a Discord track from local files
+   */
+  public createDiscordLocalTrack(
+    path: string,
+    title: string,
+    author: string,
+    duration: number,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): DiscordTrack {
+    return this.createDiscordSourceTrack(
+      'local', path, title, author, duration, requester, guildId, channelId, additionalInfo
+    );
   }
 
   /**
@@ -204,31 +413,15 @@ export class DiscordTrackEncoder {
     channelId: string,
     selectedTrack: number = 0
   ): DiscordPlaylist {
-    const tracks: Track[] = videoData.map(video => {
-      const trackInfo: TrackInfo = {
-        identifier: video.videoId,
-        title: video.title,
-        author: video.author,
-        length: video.duration * 1000, // Convert seconds to milliseconds
-        uri: `https://www.youtube.com/watch?v=${video.videoId}`,
-        isSeekable: video.duration > 0,
-        isStream: video.duration === 0,
-        position: 0,
-        sourceName: 'youtube',
-      };
-
-      return {
-        track: '', // Will be encoded
-        info: trackInfo,
-      };
-    });
+    const tracks: SourceTrackData[] = videoData.map(video => ({
+      identifier: video.videoId,
+      title: video.title,
+      author: video.author,
+      duration: video.duration,
+    }));
 
-    return this.encodeDiscordPlaylist(
-      { name, selectedTrack },
-      tracks,
-      requester,
-      guildId,
-      channelId
+    return this.createDiscordSourcePlaylist(
+      'youtube', name, tracks, requester, guildId, channelId, selectedTrack
     );
   }
 
@@ -253,34 +446,314 @@ export class DiscordTrackEncoder {
     channelId: string,
     selectedTrack: number = 0
   ): DiscordPlaylist {
-    const tracks: Track[] = trackData.map(track => {
-      const trackInfo: TrackInfo = {
-        identifier: track.trackId,
-        title: track.title,
-        author: track.author,
-        length: track.duration,
-        uri: `https://open.spotify.com/track/${track.trackId}`,
-        isSeekable: track.duration > 0,
-        isStream: track.duration === 0,
-        position: 0,
-        sourceName: 'spotify',
-      };
-
-      return {
-        track: '', // Will be encoded
-        info: trackInfo,
-      };
-    });
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
 
-    return this.encodeDiscordPlaylist(
-      { name, selectedTrack },
-      tracks,
-      requester,
-      guildId,
-      channelId
+    return this.createDiscordSourcePlaylist(
+      'spotify', name, tracks, requester, guildId, channelId, selectedTrack
     );
   }
 
+  /**
+   * Creates a Discord playlist from Apple Music data
+   */
+  public createDiscordAppleMusicPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createDiscordSourcePlaylist(
+      'applemusic', name, tracks, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  /**
+   * Creates a Discord playlist from Deezer data
+   */
+  public createDiscordDeezerPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createDiscordSourcePlaylist(
+      'deezer', name, tracks, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  /**
+   * Creates a Discord playlist from Bandcamp data
+   */
+  public createDiscordBandcampPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createDiscordSourcePlaylist(
+      'bandcamp', name, tracks, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  /**
+   * Creates a Discord playlist from Twitch channels
+   */
+  public createDiscordTwitchPlaylist(
+    playlistId: string,
+    name: string,
+    streamData: Array<{
+      channel: string;
+      title: string;
+      author: string;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: SourceTrackData[] = streamData.map(stream => ({
+      identifier: stream.channel,
+      title: stream.title,
+      author: stream.author,
+      duration: 0,
+    }));
+
+    return this.createDiscordSourcePlaylist(
+      'twitch', name, tracks, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  /**
+   * Creates a Discord playlist from Vimeo data
+   */
+  public createDiscordVimeoPlaylist(
+    playlistId: string,
+    name: string,
+    videoData: Array<{
+      videoId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: SourceTrackData[] = videoData.map(video => ({
+      identifier: video.videoId,
+      title: video.title,
+      author: video.author,
+      duration: video.duration,
+    }));
+
+    return this.createDiscordSourcePlaylist(
+      'vimeo', name, tracks, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  /**
+   * Creates a Discord playlist from Yandex Music data
+   */
+  public createDiscordYandexMusicPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createDiscordSourcePlaylist(
+      'yandexmusic', name, tracks, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  /**
+   * Creates a Discord playlist from direct media URLs
+   */
+  public createDiscordHttpPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      url: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.url,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createDiscordSourcePlaylist(
+      'http', name, tracks, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  /**
+   * Creates a Discord playlist from local files
+   */
+  public createDiscordLocalPlaylist(
+    playlistId: string,
+    name: string,
+    fileData: Array<{
+      path: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    requester: {
+      id: string;
+      username: string;
+      discriminator?: string;
+    },
+    guildId: string,
+    channelId: string,
+    selectedTrack: number = 0
+  ): DiscordPlaylist {
+    const tracks: SourceTrackData[] = fileData.map(file => ({
+      identifier: file.path,
+      title: file.title,
+      author: file.author,
+      duration: file.duration,
+    }));
+
+    return this.createDiscordSourcePlaylist(
+      'local', name, tracks, requester, guildId, channelId, selectedTrack
+    );
+  }
+
+  /**
+   * Rebuilds a Discord track from an enveloped string or a v4 track carrying Discord user data
+   */
+  public decodeDiscordTrack(encoded: string | Pick<LavalinkTrackV4, 'encoded' | 'userData'>): DiscordTrack {
+    const source = typeof encoded === 'string'
+      ? unwrapDiscordContext(encoded)
+      : { encoded: encoded.encoded, context: extractDiscordContext(encoded.userData) };
+
+    const trackInfo = this.trackEncoder.decodeTrack(source.encoded);
+    const context = source.context ?? {};
+
+    return {
+      track: typeof encoded === 'string' ? encoded : encoded.encoded,
+      info: { ...trackInfo, ...context },
+      userData: { [DISCORD_USER_DATA_KEY]: context },
+    };
+  }
+
+  /**
+   * Converts a Discord track to a v4 track for Lavalink, moving its Discord context into `userData`
+   */
+  public toLavalinkTrack(track: DiscordTrack): LavalinkTrackV4 {
+    return {
+      encoded: unwrapDiscordContext(track.track).encoded,
+      info: this.stripContext(track.info),
+      pluginInfo: {},
+      userData: {
+        ...track.userData,
+        [DISCORD_USER_DATA_KEY]: this.resolveContext(track),
+      },
+    };
+  }
+
   /**
    * Extracts requester information from a Discord track
    */
@@ -289,7 +762,7 @@ export class DiscordTrackEncoder {
     username: string;
     discriminator?: string;
   } | null {
-    return track.info.requester || null;
+    return this.resolveContext(track).requester || null;
   }
 
   /**
@@ -299,33 +772,82 @@ export class DiscordTrackEncoder {
     guildId: string;
     channelId: string;
   } | null {
-    if (!track.info.guildId || !track.info.channelId) {
+    const context = this.resolveContext(track);
+    if (!context.guildId || !context.channelId) {
       return null;
     }
     return {
-      guildId: track.info.guildId,
-      channelId: track.info.channelId,
+      guildId: context.guildId,
+      channelId: context.channelId,
     };
   }
 
   /**
    * Filters tracks by requester
    */
-  public filterTracksByRequester(tracks: DiscordTrack[], requesterId: string): DiscordTrack[] {
-    return tracks.filter(track => track.info.requester?.id === requesterId);
+  public filterTracksByRequester(tracks: Iterable<DiscordTrack>, requesterId: string): DiscordTrack[] {
+    return Array.from(tracks).filter(track => this.getRequester(track)?.id === requesterId);
   }
 
   /**
    * Filters tracks by guild
    */
-  public filterTracksByGuild(tracks: DiscordTrack[], guildId: string): DiscordTrack[] {
-    return tracks.filter(track => track.info.guildId === guildId);
+  public filterTracksByGuild(tracks: Iterable<DiscordTrack>, guildId: string): DiscordTrack[] {
+    return Array.from(tracks).filter(track => this.resolveContext(track).guildId === guildId);
+  }
+
+  /**
+   * Orders tracks round-robin by requester so one requester cannot starve the others,
+   * keeping each requester's own order. Requesters take turns in the order of their
+   * first track, except `lastRequesterId`, who just had a turn and goes last.
+   */
+  public orderTracksFairly(tracks: Iterable<DiscordTrack>, lastRequesterId?: string): DiscordTrack[] {
+    // One pass, reading each track's context once; a Map keeps first-seen order
+    const byRequester = new Map<string, DiscordTrack[]>();
+    const unattributed: DiscordTrack[] = [];
+    for (const track of tracks) {
+      const id = this.getRequester(track)?.id;
+      if (id === undefined) {
+        unattributed.push(track);
+        continue;
+      }
+      const group = byRequester.get(id);
+      if (group) {
+        group.push(track);
+      } else {
+        byRequester.set(id, [track]);
+      }
+    }
+
+    const last = lastRequesterId !== undefined ? byRequester.get(lastRequesterId) : undefined;
+    if (last && byRequester.size > 1) {
+      byRequester.delete(lastRequesterId!);
+      byRequester.set(lastRequesterId!, last);
+    }
+
+    const turns = Array.from(byRequester.values());
+    // Tracks without a requester take their turns together, after everyone else
+    if (unattributed.length > 0) {
+      turns.push(unattributed);
+    }
+
+    const ordered: DiscordTrack[] = [];
+    const rounds = Math.max(0, ...turns.map(turn => turn.length));
+    for (let round = 0; round < rounds; round++) {
+      turns.forEach(turn => {
+        if (round < turn.length) {
+          ordered.push(turn[round]);
+        }
+      });
+    }
+
+    return ordered;
   }
 
   /**
    * Gets track statistics for a user
    */
-  public getTrackStats(tracks: DiscordTrack[], requesterId: string): {
+  public getTrackStats(tracks: Iterable<DiscordTrack>, requesterId: string): {
     totalTracks: number;
     totalDuration: number;
     sources: Record<string, number>;
@@ -350,15 +872,68 @@ export class DiscordTrackEncoder {
   /**
    * Updates encoder options
    */
-  public updateOptions(options: {
-    includeArtwork?: boolean;
-    includeISRC?: boolean;
-    sourceName?: string;
-    validate?: boolean;
-    maxTracks?: number;
-    includeMetadata?: boolean;
-  }): void {
-    this.trackEncoder.updateOptions(options);
-    this.playlistEncoder.updateOptions(options);
+  public updateOptions(options: Partial<DiscordEncoderOptions>): void {
+    const { contextStorage, ...encoderOptions } = options;
+    if (contextStorage) {
+      this.contextStorage = contextStorage;
+    }
+    this.trackEncoder.updateOptions(encoderOptions);
+    this.playlistEncoder.updateOptions(encoderOptions);
+  }
+
+  /**
+   * Builds a Discord track, storing its context according to the context storage option
+   */
+  private attachContext(encoded: string, info: DiscordTrackInfo): DiscordTrack {
+    if (this.contextStorage === 'memory') {
+      return { track: encoded, info };
+    }
+
+    const context: DiscordContext = {
+      ...(info.requester && { requester: info.requester }),
+      ...(info.guildId && { guildId: info.guildId }),
+      ...(info.channelId && { channelId: info.channelId }),
+    };
+
+    return {
+      track: this.contextStorage === 'envelope' ? wrapDiscordContext(encoded, context) : encoded,
+      info,
+      userData: { [DISCORD_USER_DATA_KEY]: context },
+    };
+  }
+
+  /**
+   * Builds track info for a registered source using the track encoder's registry
+   */
+  private buildSourceTrackInfo(
+    sourceName: string,
+    data: SourceTrackData,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): TrackInfo {
+    const { sources, validate } = this.trackEncoder.getOptions();
+    return sources.buildTrackInfo(sourceName, data, additionalInfo, validate);
+  }
+
+  /**
+   * Resolves a track's Discord context from its info, user data or envelope, in that order
+   */
+  private resolveContext(track: DiscordTrack): DiscordContext {
+    const stored = extractDiscordContext(track.userData)
+      ?? unwrapDiscordContext(track.track).context
+      ?? {};
+
+    return {
+      requester: track.info.requester ?? stored.requester,
+      guildId: track.info.guildId ?? stored.guildId,
+      channelId: track.info.channelId ?? stored.channelId,
+    };
+  }
+
+  /**
+   * Removes Discord fields from track info before it is sent to Lavalink
+   */
+  private stripContext(info: DiscordTrackInfo): TrackInfo {
+    const { requester, guildId, channelId, ...trackInfo } = info;
+    return trackInfo;
   }
 }
@@ -0,0 +1,258 @@
+import { DiscordTrack } from '../types';
+import { DiscordTrackEncoder } from './DiscordTrackEncoder';
+import { GuildQueue } from './GuildQueue';
+
+const encoder = new DiscordTrackEncoder();
+
+function track(identifier: string, requesterId = 'user-1'): DiscordTrack {
+  return encoder.encodeDiscordTrack(
+    {
+      identifier,
+      isSeekable: true,
+      author: 'Artist',
+      length: 60000,
+      isStream: false,
+      position: 0,
+      title: identifier,
+      uri: `https://example.com/${identifier}`,
+      sourceName: 'http',
+    },
+    { id: requesterId, username: requesterId },
+    'guild-1',
+    'channel-1'
+  );
+}
+
+function titles(tracks: Iterable<DiscordTrack | null>): Array<string | null> {
+  return Array.from(tracks, entry => entry?.info.title ?? null);
+}
+
+describe('GuildQueue', () => {
+  it('plays tracks in order and records the history', () => {
+    const queue = new GuildQueue('guild-1');
+    queue.enqueue([track('a'), track('b'), track('c')]);
+
+    expect(queue.current).toBeNull();
+    expect(titles([queue.advance(), queue.advance()])).toEqual(['a', 'b']);
+    expect(titles(queue)).toEqual(['b', 'c']);
+    expect(titles(queue.history)).toEqual(['a']);
+    expect(queue.totalDuration).toBe(120000);
+    expect(titles([queue.advance(), queue.advance()])).toEqual(['c', null]);
+    expect(queue.isEmpty).toBe(true);
+  });
+
+  it('repeats the current track in track loop mode until skipped', () => {
+    const queue = new GuildQueue('guild-1', { loopMode: 'track' });
+    queue.enqueue([track('a'), track('b')]);
+    queue.skip();
+
+    expect(titles([queue.advance(), queue.advance()])).toEqual(['a', 'a']);
+    expect(titles([queue.skip()])).toEqual(['b']);
+  });
+
+  it('re-queues finished tracks in queue loop mode', () => {
+    const queue = new GuildQueue('guild-1', { loopMode: 'queue' });
+    queue.enqueue([track('a'), track('b')]);
+
+    const played = Array.from({ length: 5 }, () => queue.advance());
+    expect(titles(played)).toEqual(['a', 'b', 'a', 'b', 'a']);
+  });
+
+  it('goes back to the previous track and puts the current one in front', () => {
+    const queue = new GuildQueue('guild-1');
+    queue.enqueue([track('a'), track('b'), track('c')]);
+    queue.advance();
+    queue.advance();
+
+    expect(titles([queue.previous()])).toEqual(['a']);
+    expect(titles(queue)).toEqual(['a', 'b', 'c']);
+    expect(queue.history).toEqual([]);
+    expect(queue.previous()).toBeNull();
+  });
+
+  it('does not replay a track twice after going back in queue loop mode', () => {
+    const queue = new GuildQueue('guild-1', { loopMode: 'queue' });
+    queue.enqueue([track('a'), track('b')]);
+    queue.advance();
+    queue.advance();
+    queue.previous();
+
+    expect(titles(queue)).toEqual(['a', 'b']);
+  });
+
+  it('skips to an upcoming track, moving the skipped ones to the history', () => {
+    const queue = new GuildQueue('guild-1');
+    queue.enqueue([track('a'), track('b'), track('c'), track('d')]);
+    queue.advance();
+
+    expect(titles([queue.skipTo(1)])).toEqual(['c']);
+    expect(titles(queue.history)).toEqual(['a', 'b']);
+    expect(() => queue.skipTo(5)).toThrow('Queue index out of range: 5');
+  });
+
+  it('moves, swaps, removes and clears upcoming tracks', () => {
+    const queue = new GuildQueue('guild-1');
+    queue.enqueue([track('a'), track('b'), track('c'), track('d')]);
+
+    queue.move(0, 3);
+    expect(titles(queue.tracks)).toEqual(['b', 'c', 'd', 'a']);
+    queue.swap(0, 1);
+    expect(titles(queue.tracks)).toEqual(['c', 'b', 'd', 'a']);
+    expect(titles([queue.remove(2)])).toEqual(['d']);
+    queue.playNext(track('e'));
+    expect(titles(queue.tracks)).toEqual(['e', 'c', 'b', 'a']);
+    expect(titles(queue.clear())).toEqual(['e', 'c', 'b', 'a']);
+    expect(queue.size).toBe(0);
+  });
+
+  it('enforces the maximum size and history length', () => {
+    const queue = new GuildQueue('guild-1', { maxSize: 2, maxHistory: 1 });
+    queue.enqueue([track('a'), track('b')]);
+
+    expect(() => queue.enqueue(track('c'))).toThrow('Queue is full (2 tracks)');
+    queue.advance();
+    queue.advance();
+    queue.advance();
+    expect(titles(queue.history)).toEqual(['b']);
+  });
+
+  it('emits events for each change', () => {
+    const queue = new GuildQueue('guild-1');
+    const events: string[] = [];
+    (['add', 'remove', 'move', 'trackChange', 'loopModeChange', 'clear', 'change'] as const).forEach(event => {
+      queue.on(event, () => events.push(event));
+    });
+
+    queue.enqueue([track('a'), track('b'), track('c')]);
+    queue.advance();
+    queue.move(0, 1);
+    queue.remove(0);
+    queue.setLoopMode('queue');
+    queue.setLoopMode('queue');
+    queue.clear();
+
+    expect(events).toEqual([
+      'add', 'change',
+      'trackChange', 'change',
+      'move', 'change',
+      'remove', 'change',
+      'loopModeChange', 'change',
+      'clear', 'change',
+    ]);
+  });
+
+  it('passes the current and previous track to trackChange listeners', () => {
+    const queue = new GuildQueue('guild-1');
+    const changes: Array<Array<string | null>> = [];
+    queue.on('trackChange', (current, previous) => changes.push(titles([current, previous])));
+
+    queue.enqueue([track('a'), track('b')]);
+    queue.advance();
+    queue.advance();
+    queue.advance();
+
+    expect(changes).toEqual([['a', null], ['b', 'a'], [null, 'b']]);
+  });
+});
+
+describe('fair ordering', () => {
+  it('orders tracks round-robin by requester, keeping each requester\'s order', () => {
+    const ordered = encoder.orderTracksFairly([
+      track('a1', 'alice'),
+      track('a2', 'alice'),
+      track('a3', 'alice'),
+      track('b1', 'bob'),
+      track('c1', 'carol'),
+      track('b2', 'bob'),
+    ]);
+
+    expect(titles(ordered)).toEqual(['a1', 'b1', 'c1', 'a2', 'b2', 'a3']);
+  });
+
+  it('gives the last requester their next turn last', () => {
+    const ordered = encoder.orderTracksFairly([track('a1', 'alice'), track('a2', 'alice'), track('b1', 'bob')], 'alice');
+    expect(titles(ordered)).toEqual(['b1', 'a1', 'a2']);
+  });
+
+  it('re-balances the queue on every insert', () => {
+    const queue = new GuildQueue('guild-1', { ordering: 'fair' });
+    queue.enqueue([track('a1', 'alice'), track('a2', 'alice'), track('a3', 'alice')]);
+    queue.enqueue(track('b1', 'bob'));
+
+    expect(titles(queue.tracks)).toEqual(['a1', 'b1', 'a2', 'a3']);
+  });
+
+  it('counts the current track\'s requester as having just had a turn', () => {
+    const queue = new GuildQueue('guild-1', { ordering: 'fair' });
+    queue.enqueue([track('a1', 'alice'), track('a2', 'alice')]);
+    queue.advance();
+    queue.enqueue(track('b1', 'bob'));
+
+    expect(titles(queue.tracks)).toEqual(['b1', 'a2']);
+  });
+
+  it('re-balances when switching to fair ordering and emits reorder', () => {
+    const queue = new GuildQueue('guild-1');
+    queue.enqueue([track('a1', 'alice'), track('a2', 'alice'), track('b1', 'bob')]);
+    const reorders: Array<Array<string | null>> = [];
+    queue.on('reorder', tracks => reorders.push(titles(tracks)));
+
+    queue.setOrdering('fair');
+
+    expect(titles(queue.tracks)).toEqual(['a1', 'b1', 'a2']);
+    expect(reorders).toEqual([['a1', 'b1', 'a2']]);
+  });
+
+  it('keeps moved and swapped tracks where they were placed', () => {
+    const queue = new GuildQueue('guild-1', { ordering: 'fair' });
+    queue.enqueue([track('a1', 'alice'), track('b1', 'bob'), track('a2', 'alice')]);
+    queue.move(2, 0);
+    expect(titles(queue.tracks)).toEqual(['a2', 'a1', 'b1']);
+
+    queue.enqueue(track('c1', 'carol'));
+    expect(titles(queue.tracks)).toEqual(['a2', 'a1', 'b1', 'c1']);
+
+    queue.swap(1, 3);
+    queue.enqueue([track('b2', 'bob'), track('a3', 'alice')]);
+    expect(titles(queue.tracks)).toEqual(['a2', 'c1', 'b1', 'a1', 'a3', 'b2']);
+  });
+
+  it('keeps tracks added with playNext at the front', () => {
+    const queue = new GuildQueue('guild-1', { ordering: 'fair' });
+    queue.enqueue([track('a1', 'alice'), track('b1', 'bob')]);
+    queue.playNext(track('a2', 'alice'));
+    queue.enqueue(track('c1', 'carol'));
+
+    expect(titles(queue.tracks)).toEqual(['a2', 'a1', 'b1', 'c1']);
+  });
+
+  it('unpins every track when switching to fair ordering', () => {
+    const queue = new GuildQueue('guild-1', { ordering: 'fair' });
+    queue.enqueue([track('a1', 'alice'), track('a2', 'alice'), track('b1', 'bob')]);
+    queue.move(2, 0);
+    queue.setOrdering('fifo').setOrdering('fair');
+
+    expect(titles(queue.tracks)).toEqual(['a2', 'b1', 'a1']);
+  });
+
+  it('reads each track\'s requester once per re-balance', () => {
+    const tracks = Array.from({ length: 30 }, (_, index) => track(`t${index}`, `user-${index % 5}`));
+    const queue = new GuildQueue('guild-1', { ordering: 'fair', encoder });
+    queue.enqueue(tracks);
+    const getRequester = jest.spyOn(encoder, 'getRequester');
+    try {
+      queue.enqueue(track('late', 'user-9'));
+      expect(getRequester).toHaveBeenCalledTimes(31);
+    } finally {
+      getRequester.mockRestore();
+    }
+  });
+
+  it('puts tracks without a requester after everyone else', () => {
+    const named = track('x1');
+    const anonymous = { ...named, info: { ...named.info, requester: undefined }, userData: {} };
+    const ordered = encoder.orderTracksFairly([anonymous, track('a1', 'alice'), track('a2', 'alice'), track('b1', 'bob')]);
+
+    expect(titles(ordered)).toEqual(['a1', 'b1', 'x1', 'a2']);
+  });
+});
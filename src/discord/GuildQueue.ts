@@ -0,0 +1,395 @@
+import { EventEmitter } from 'events';
+import {
+  DiscordTrack,
+  GuildQueueEvents,
+  GuildQueueOptions,
+  LoopMode,
+  QueueOrdering,
+  QueueSnapshot,
+  QueueSnapshotTrack,
+} from '../types';
+import { calculateTotalDuration } from '../utils';
+import { DiscordTrackEncoder } from './DiscordTrackEncoder';
+import { QUEUE_SNAPSHOT_VERSION, migrateQueueSnapshot } from './QueueSnapshot';
+
+export interface GuildQueue {
+  on<E extends keyof GuildQueueEvents>(event: E, listener: (...args: GuildQueueEvents[E]) => void): this;
+  once<E extends keyof GuildQueueEvents>(event: E, listener: (...args: GuildQueueEvents[E]) => void): this;
+  off<E extends keyof GuildQueueEvents>(event: E, listener: (...args: GuildQueueEvents[E]) => void): this;
+  emit<E extends keyof GuildQueueEvents>(event: E, ...args: GuildQueueEvents[E]): boolean;
+}
+
+/**
+ * Play queue of a guild's Discord tracks: the current track, the upcoming tracks and
+ * the history of played tracks. Iterating the queue yields the current track, then
+ * the upcoming ones, so it can be passed to the `DiscordTrackEncoder` filter helpers.
+ *
+ * In `fair` ordering the upcoming tracks are re-balanced round-robin by requester on every
+ * insert and removal. Tracks placed with `playNext`, `move` or `swap` are pinned: they keep
+ * their position and only the other tracks are re-balanced around them.
+ */
+export class GuildQueue extends EventEmitter implements Iterable<DiscordTrack> {
+  public readonly guildId: string;
+  private upcoming: DiscordTrack[] = [];
+  private played: DiscordTrack[] = [];
+  private currentTrack: DiscordTrack | null = null;
+  /** Upcoming tracks placed by hand, which re-balancing leaves where they are */
+  private pinned = new Set<DiscordTrack>();
+  private mode: LoopMode;
+  private order: QueueOrdering;
+  private encoder: DiscordTrackEncoder;
+  private maxHistory: number;
+  private maxSize: number;
+
+  constructor(guildId: string, options: GuildQueueOptions = {}) {
+    super();
+    this.guildId = guildId;
+    this.mode = options.loopMode ?? 'off';
+    this.order = options.ordering ?? 'fifo';
+    this.encoder = options.encoder ?? new DiscordTrackEncoder();
+    this.maxHistory = options.maxHistory ?? 50;
+    this.maxSize = options.maxSize ?? 0;
+  }
+
+  /**
+   * Restores a queue from a snapshot, migrating older snapshot versions. No events are
+   * emitted; resume the current track at the snapshot's `position`.
+   */
+  public static fromSnapshot(
+    snapshot: QueueSnapshot,
+    options: Omit<GuildQueueOptions, 'loopMode' | 'ordering'> = {}
+  ): GuildQueue {
+    const migrated = migrateQueueSnapshot(snapshot);
+    const queue = new GuildQueue(migrated.guildId, {
+      ...options,
+      loopMode: migrated.loopMode,
+      ordering: migrated.ordering,
+    });
+
+    const tracks = migrated.tracks.map(track => queue.restoreTrack(track));
+    const current = migrated.currentIndex;
+
+    [...migrated.history.map(track => queue.restoreTrack(track)), ...tracks.slice(0, Math.max(current, 0))]
+      .forEach(track => queue.addToHistory(track));
+    if (current >= 0) {
+      queue.currentTrack = tracks[current];
+      queue.upcoming = tracks.slice(current + 1);
+    } else {
+      queue.upcoming = tracks;
+    }
+    return queue;
+  }
+
+  /**
+   * The track playing now
+   */
+  public get current(): DiscordTrack | null {
+    return this.currentTrack;
+  }
+
+  /**
+   * The upcoming tracks, next first
+   */
+  public get tracks(): DiscordTrack[] {
+    return [...this.upcoming];
+  }
+
+  /**
+   * Played tracks, most recent last
+   */
+  public get history(): DiscordTrack[] {
+    return [...this.played];
+  }
+
+  public get loopMode(): LoopMode {
+    return this.mode;
+  }
+
+  public get ordering(): QueueOrdering {
+    return this.order;
+  }
+
+  /**
+   * Number of upcoming tracks
+   */
+  public get size(): number {
+    return this.upcoming.length;
+  }
+
+  /**
+   * Whether there is neither a current nor an upcoming track
+   */
+  public get isEmpty(): boolean {
+    return this.currentTrack === null && this.upcoming.length === 0;
+  }
+
+  /**
+   * Total duration of the current and upcoming tracks in milliseconds
+   */
+  public get totalDuration(): number {
+    return calculateTotalDuration([...this]);
+  }
+
+  public setLoopMode(mode: LoopMode): this {
+    if (mode !== this.mode) {
+      this.mode = mode;
+      this.emit('loopModeChange', mode);
+      this.emit('change');
+    }
+    return this;
+  }
+
+  /**
+   * Switches the ordering; switching to `fair` unpins every track and re-balances the
+   * upcoming tracks right away
+   */
+  public setOrdering(ordering: QueueOrdering): this {
+    if (ordering !== this.order) {
+      this.order = ordering;
+      this.pinned.clear();
+      this.emit('orderingChange', ordering);
+      this.rebalance();
+      this.emit('change');
+    }
+    return this;
+  }
+
+  /**
+   * Adds tracks to the end of the queue and returns the new number of upcoming tracks
+   */
+  public enqueue(tracks: DiscordTrack | DiscordTrack[]): number {
+    return this.insert(this.upcoming.length, Array.isArray(tracks) ? tracks : [tracks]);
+  }
+
+  /**
+   * Adds tracks to the front of the queue and returns the new number of upcoming tracks.
+   * In `fair` ordering the tracks are pinned there instead of taking their requester's turn.
+   */
+  public playNext(tracks: DiscordTrack | DiscordTrack[]): number {
+    return this.insert(0, Array.isArray(tracks) ? tracks : [tracks], true);
+  }
+
+  /**
+   * Moves on after the current track finished, honouring the loop mode, and returns
+   * the track to play
+   */
+  public advance(): DiscordTrack | null {
+    if (this.mode === 'track' && this.currentTrack) {
+      return this.currentTrack;
+    }
+    return this.shift(0);
+  }
+
+  /**
+   * Skips the current track, even when looping it, and returns the track to play
+   */
+  public skip(): DiscordTrack | null {
+    return this.shift(0);
+  }
+
+  /**
+   * Skips to an upcoming track, moving the tracks before it to the history
+   */
+  public skipTo(index: number): DiscordTrack | null {
+    this.requireIndex(index);
+    return this.shift(index);
+  }
+
+  /**
+   * Goes back to the most recently played track, putting the current one back in front
+   * of the queue
+   */
+  public previous(): DiscordTrack | null {
+    const track = this.played.pop();
+    if (!track) {
+      return null;
+    }
+
+    // In queue loop mode the track was also re-queued at the end when it was left
+    if (this.mode === 'queue' && this.upcoming[this.upcoming.length - 1] === track) {
+      this.upcoming.pop();
+    }
+
+    const previous = this.currentTrack;
+    if (previous) {
+      this.upcoming.unshift(previous);
+    }
+    this.currentTrack = track;
+    this.emit('trackChange', track, previous);
+    this.emit('change');
+    return track;
+  }
+
+  /**
+   * Removes an upcoming track
+   */
+  public remove(index: number): DiscordTrack {
+    this.requireIndex(index);
+    const [track] = this.upcoming.splice(index, 1);
+    this.pinned.delete(track);
+    this.emit('remove', [track]);
+    this.rebalance();
+    this.emit('change');
+    return track;
+  }
+
+  /**
+   * Moves an upcoming track to another position, pinning it there in `fair` ordering
+   */
+  public move(from: number, to: number): this {
+    this.requireIndex(from);
+    this.requireIndex(to);
+    if (from !== to) {
+      const [track] = this.upcoming.splice(from, 1);
+      this.upcoming.splice(to, 0, track);
+      this.pinned.add(track);
+      this.emit('move', from, to);
+      this.emit('change');
+    }
+    return this;
+  }
+
+  /**
+   * Swaps two upcoming tracks, pinning both in `fair` ordering
+   */
+  public swap(first: number, second: number): this {
+    this.requireIndex(first);
+    this.requireIndex(second);
+    if (first !== second) {
+      [this.upcoming[first], this.upcoming[second]] = [this.upcoming[second], this.upcoming[first]];
+      this.pinned.add(this.upcoming[first]).add(this.upcoming[second]);
+      this.emit('swap', first, second);
+      this.emit('change');
+    }
+    return this;
+  }
+
+  /**
+   * Removes all upcoming tracks, keeping the current track and history
+   */
+  public clear(): DiscordTrack[] {
+    const removed = this.upcoming;
+    this.upcoming = [];
+    this.pinned.clear();
+    if (removed.length > 0) {
+      this.emit('clear', removed);
+      this.emit('change');
+    }
+    return removed;
+  }
+
+  /**
+   * Captures the queue state for `fromSnapshot`, with the current track's playback
+   * position in milliseconds
+   */
+  public toSnapshot(position = 0): QueueSnapshot {
+    const tracks = [...this].map(track => this.snapshotTrack(track));
+
+    return {
+      version: QUEUE_SNAPSHOT_VERSION,
+      guildId: this.guildId,
+      tracks,
+      currentIndex: this.currentTrack ? 0 : -1,
+      loopMode: this.mode,
+      ordering: this.order,
+      position: this.currentTrack ? position : 0,
+      history: this.played.map(track => this.snapshotTrack(track)),
+      createdAt: Date.now(),
+    };
+  }
+
+  public *[Symbol.iterator](): Iterator<DiscordTrack> {
+    if (this.currentTrack) {
+      yield this.currentTrack;
+    }
+    yield* this.upcoming;
+  }
+
+  private insert(index: number, tracks: DiscordTrack[], pin = false): number {
+    if (tracks.length === 0) {
+      return this.upcoming.length;
+    }
+    if (this.maxSize > 0 && this.upcoming.length + tracks.length > this.maxSize) {
+      throw new Error(`Queue is full (${this.maxSize} tracks)`);
+    }
+
+    this.upcoming.splice(index, 0, ...tracks);
+    if (pin) {
+      tracks.forEach(track => this.pinned.add(track));
+    }
+    this.emit('add', [...tracks], index);
+    this.rebalance();
+    this.emit('change');
+    return this.upcoming.length;
+  }
+
+  /**
+   * Re-orders the unpinned upcoming tracks round-robin by requester when ordering fairly,
+   * filling the positions around the pinned ones. The current track's requester counts
+   * as having just had a turn.
+   */
+  private rebalance(): void {
+    if (this.order !== 'fair') {
+      return;
+    }
+
+    const lastRequesterId = this.currentTrack ? this.encoder.getRequester(this.currentTrack)?.id : undefined;
+    const balanced = this.encoder.orderTracksFairly(
+      this.upcoming.filter(track => !this.pinned.has(track)),
+      lastRequesterId
+    );
+    let next = 0;
+    const ordered = this.upcoming.map(track => (this.pinned.has(track) ? track : balanced[next++]));
+    if (ordered.some((track, index) => track !== this.upcoming[index])) {
+      this.upcoming = ordered;
+      this.emit('reorder', [...ordered]);
+    }
+  }
+
+  /**
+   * Leaves the current track and the `count` upcoming tracks before the next one
+   */
+  private shift(count: number): DiscordTrack | null {
+    const previous = this.currentTrack;
+    const left = [...(previous ? [previous] : []), ...this.upcoming.splice(0, count)];
+    left.forEach(track => this.pinned.delete(track));
+
+    left.forEach(track => this.addToHistory(track));
+    if (this.mode === 'queue') {
+      this.upcoming.push(...left);
+    }
+
+    this.currentTrack = this.upcoming.shift() ?? null;
+    if (this.currentTrack) {
+      this.pinned.delete(this.currentTrack);
+    }
+    if (this.currentTrack !== previous || left.length > 0) {
+      this.emit('trackChange', this.currentTrack, previous);
+      this.emit('change');
+    }
+    return this.currentTrack;
+  }
+
+  private snapshotTrack(track: DiscordTrack): QueueSnapshotTrack {
+    const { encoded, userData } = this.encoder.toLavalinkTrack(track);
+    return { encoded, userData };
+  }
+
+  private restoreTrack(track: QueueSnapshotTrack): DiscordTrack {
+    const restored = this.encoder.decodeDiscordTrack({ encoded: track.encoded, userData: track.userData ?? {} });
+    return { ...restored, userData: { ...track.userData, ...restored.userData } };
+  }
+
+  private addToHistory(track: DiscordTrack): void {
+    this.played.push(track);
+    if (this.played.length > this.maxHistory) {
+      this.played.splice(0, this.played.length - this.maxHistory);
+    }
+  }
+
+  private requireIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.upcoming.length) {
+      throw new Error(`Queue index out of range: ${index}`);
+    }
+  }
+}
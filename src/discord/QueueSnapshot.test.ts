@@ -0,0 +1,112 @@
+import { deflateRawSync } from 'zlib';
+import { DiscordTrack } from '../types';
+import { DiscordTrackEncoder } from './DiscordTrackEncoder';
+import { GuildQueue } from './GuildQueue';
+import {
+  QUEUE_SNAPSHOT_VERSION,
+  deserializeQueueSnapshot,
+  migrateQueueSnapshot,
+  serializeQueueSnapshot,
+  serializeQueueSnapshotToString,
+} from './QueueSnapshot';
+
+const encoder = new DiscordTrackEncoder();
+
+function track(identifier: string, requesterId = 'user-1'): DiscordTrack {
+  return encoder.encodeDiscordTrack(
+    {
+      identifier,
+      isSeekable: true,
+      author: 'Artist',
+      length: 60000,
+      isStream: false,
+      position: 0,
+      title: identifier,
+      uri: `https://example.com/${identifier}`,
+      sourceName: 'http',
+    },
+    { id: requesterId, username: requesterId },
+    'guild-1',
+    'channel-1'
+  );
+}
+
+function titles(tracks: Iterable<DiscordTrack | null>): Array<string | null> {
+  return Array.from(tracks, entry => entry?.info.title ?? null);
+}
+
+function filledQueue(): GuildQueue {
+  const queue = new GuildQueue('guild-1', { loopMode: 'queue', ordering: 'fair' });
+  queue.enqueue([track('a', 'alice'), track('b', 'bob'), track('c', 'alice'), track('d', 'bob')]);
+  queue.advance();
+  queue.advance();
+  return queue;
+}
+
+describe('queue snapshots', () => {
+  it('restores the current track, upcoming tracks, history and modes', () => {
+    const queue = filledQueue();
+    const restored = GuildQueue.fromSnapshot(queue.toSnapshot(30000));
+
+    expect(restored.guildId).toBe('guild-1');
+    expect(titles([restored.current])).toEqual(titles([queue.current]));
+    expect(titles(restored.tracks)).toEqual(titles(queue.tracks));
+    expect(titles(restored.history)).toEqual(titles(queue.history));
+    expect(restored.loopMode).toBe('queue');
+    expect(restored.ordering).toBe('fair');
+    expect(encoder.getRequester(restored.current!)?.id).toBe(encoder.getRequester(queue.current!)?.id);
+  });
+
+  it('records the playback position only while a track is playing', () => {
+    const queue = filledQueue();
+    expect(queue.toSnapshot(30000)).toMatchObject({ version: QUEUE_SNAPSHOT_VERSION, currentIndex: 0, position: 30000 });
+
+    const idle = new GuildQueue('guild-1');
+    idle.enqueue(track('a'));
+    expect(idle.toSnapshot(30000)).toMatchObject({ currentIndex: -1, position: 0 });
+    expect(titles(GuildQueue.fromSnapshot(idle.toSnapshot()).tracks)).toEqual(['a']);
+  });
+
+  it('puts tracks before the current index into the history', () => {
+    const idle = new GuildQueue('guild-1');
+    idle.enqueue([track('a'), track('b'), track('c')]);
+    const restored = GuildQueue.fromSnapshot({ ...idle.toSnapshot(), currentIndex: 2 });
+
+    expect(titles([restored.current])).toEqual(['c']);
+    expect(titles(restored.history)).toEqual(['a', 'b']);
+    expect(restored.tracks).toEqual([]);
+  });
+
+  it('round-trips through the buffer and string serializations', () => {
+    const snapshot = filledQueue().toSnapshot(1234);
+
+    expect(deserializeQueueSnapshot(serializeQueueSnapshot(snapshot))).toEqual(snapshot);
+    const serialized = serializeQueueSnapshotToString(snapshot);
+    expect(serialized).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(deserializeQueueSnapshot(serialized)).toEqual(snapshot);
+  });
+
+  it('rejects data that is not a serialized snapshot', () => {
+    expect(() => deserializeQueueSnapshot('not base64url!')).toThrow('Invalid queue snapshot: not a serialized snapshot');
+    expect(() => deserializeQueueSnapshot(Buffer.from('plain text'))).toThrow('Invalid queue snapshot');
+  });
+
+  it('refuses to inflate snapshots past the size limit', () => {
+    // A valid snapshot padded with whitespace, which JSON allows
+    const json = JSON.stringify(filledQueue().toSnapshot()).padEnd(9 * 1024 * 1024, ' ');
+    const bomb = deflateRawSync(Buffer.from(json, 'utf8'));
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    expect(() => deserializeQueueSnapshot(bomb)).toThrow('Invalid queue snapshot: not a serialized snapshot');
+  });
+
+  it('validates the snapshot shape and version', () => {
+    const snapshot = filledQueue().toSnapshot();
+
+    expect(() => migrateQueueSnapshot(null)).toThrow('Invalid queue snapshot: expected an object');
+    expect(() => migrateQueueSnapshot({ ...snapshot, version: QUEUE_SNAPSHOT_VERSION + 1 }))
+      .toThrow(`Unsupported queue snapshot version ${QUEUE_SNAPSHOT_VERSION + 1}`);
+    expect(() => migrateQueueSnapshot({ ...snapshot, currentIndex: 10 })).toThrow('currentIndex 10 is out of range');
+    expect(() => migrateQueueSnapshot({ ...snapshot, loopMode: 'forever' })).toThrow('unknown loop mode forever');
+    expect(() => migrateQueueSnapshot({ ...snapshot, tracks: [{}] })).toThrow('tracks[0] has no encoded track');
+  });
+});
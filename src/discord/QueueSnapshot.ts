@@ -0,0 +1,131 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { QueueSnapshot, QueueSnapshotTrack } from '../types';
+import { toBase64Url, fromBase64Url } from '../codec';
+
+/**
+ * Current queue snapshot schema version
+ */
+export const QUEUE_SNAPSHOT_VERSION = 1;
+
+/**
+ * Upgrades a snapshot of each older version to the next one. A schema change bumps
+ * `QUEUE_SNAPSHOT_VERSION` and adds the step from the previous version here.
+ */
+const MIGRATIONS: Record<number, (snapshot: Record<string, any>) => Record<string, any>> = {};
+
+/**
+ * Largest JSON a snapshot may inflate to, so a crafted snapshot cannot exhaust memory
+ */
+const MAX_SNAPSHOT_LENGTH = 8 * 1024 * 1024;
+
+const LOOP_MODES = ['off', 'track', 'queue'];
+const ORDERINGS = ['fifo', 'fair'];
+
+/**
+ * Compresses a snapshot to a Buffer for storage
+ */
+export function serializeQueueSnapshot(snapshot: QueueSnapshot): Buffer {
+  return deflateRawSync(Buffer.from(JSON.stringify(snapshot), 'utf8'));
+}
+
+/**
+ * Compresses a snapshot to a URL-safe string for storage in text columns or keys
+ */
+export function serializeQueueSnapshotToString(snapshot: QueueSnapshot): string {
+  return toBase64Url(serializeQueueSnapshot(snapshot));
+}
+
+/**
+ * Restores a snapshot written by `serializeQueueSnapshot` or `serializeQueueSnapshotToString`,
+ * migrating it to the current version
+ */
+export function deserializeQueueSnapshot(data: Uint8Array | string): QueueSnapshot {
+  let value: unknown;
+  try {
+    const bytes = typeof data === 'string' ? fromBase64Url(data) : data;
+    value = JSON.parse(inflateRawSync(bytes, { maxOutputLength: MAX_SNAPSHOT_LENGTH }).toString('utf8'));
+  } catch {
+    throw new Error('Invalid queue snapshot: not a serialized snapshot');
+  }
+  return migrateQueueSnapshot(value);
+}
+
+/**
+ * Migrates a parsed snapshot of any supported version to the current version and
+ * validates its shape
+ */
+export function migrateQueueSnapshot(value: unknown): QueueSnapshot {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid queue snapshot: expected an object');
+  }
+
+  let snapshot = value as Record<string, any>;
+  if (!Number.isInteger(snapshot.version) || snapshot.version < 1) {
+    throw new Error('Invalid queue snapshot: missing version');
+  }
+  if (snapshot.version > QUEUE_SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported queue snapshot version ${snapshot.version}`);
+  }
+
+  while (snapshot.version < QUEUE_SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[snapshot.version];
+    if (!migrate) {
+      throw new Error(`Unsupported queue snapshot version ${snapshot.version}`);
+    }
+    snapshot = migrate(snapshot);
+  }
+
+  return validateSnapshot(snapshot);
+}
+
+function validateSnapshot(snapshot: Record<string, any>): QueueSnapshot {
+  if (typeof snapshot.guildId !== 'string') {
+    throw new Error('Invalid queue snapshot: guildId must be a string');
+  }
+  const tracks = validateTracks(snapshot.tracks, 'tracks');
+  const history = validateTracks(snapshot.history, 'history');
+
+  if (!Number.isInteger(snapshot.currentIndex) || snapshot.currentIndex < -1 || snapshot.currentIndex >= tracks.length) {
+    throw new Error(`Invalid queue snapshot: currentIndex ${snapshot.currentIndex} is out of range`);
+  }
+  if (!LOOP_MODES.includes(snapshot.loopMode)) {
+    throw new Error(`Invalid queue snapshot: unknown loop mode ${snapshot.loopMode}`);
+  }
+  if (!ORDERINGS.includes(snapshot.ordering)) {
+    throw new Error(`Invalid queue snapshot: unknown ordering ${snapshot.ordering}`);
+  }
+  if (typeof snapshot.position !== 'number' || !(snapshot.position >= 0)) {
+    throw new Error('Invalid queue snapshot: position must be a non-negative number');
+  }
+  if (typeof snapshot.createdAt !== 'number') {
+    throw new Error('Invalid queue snapshot: createdAt must be a number');
+  }
+
+  return {
+    version: QUEUE_SNAPSHOT_VERSION,
+    guildId: snapshot.guildId,
+    tracks,
+    currentIndex: snapshot.currentIndex,
+    loopMode: snapshot.loopMode,
+    ordering: snapshot.ordering,
+    position: snapshot.position,
+    history,
+    createdAt: snapshot.createdAt,
+  };
+}
+
+function validateTracks(value: unknown, field: string): QueueSnapshotTrack[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid queue snapshot: ${field} must be an array`);
+  }
+
+  return value.map((track, index) => {
+    if (!track || typeof track.encoded !== 'string') {
+      throw new Error(`Invalid queue snapshot: ${field}[${index}] has no encoded track`);
+    }
+    if (track.userData !== undefined && (typeof track.userData !== 'object' || track.userData === null)) {
+      throw new Error(`Invalid queue snapshot: ${field}[${index}] has invalid user data`);
+    }
+    return track.userData ? { encoded: track.encoded, userData: track.userData } : { encoded: track.encoded };
+  });
+}
@@ -0,0 +1,239 @@
+import { LavalinkPlaylist, LavalinkTrack, TrackInfo } from '../types';
+import { PlaylistEncoder } from './PlaylistEncoder';
+import { TrackEncoder } from './TrackEncoder';
+
+const trackEncoder = new TrackEncoder();
+
+function track(identifier: string, overrides: Partial<TrackInfo> = {}): LavalinkTrack {
+  return trackEncoder.encodeTrack({
+    identifier,
+    isSeekable: true,
+    author: 'Artist',
+    length: 180000,
+    isStream: false,
+    position: 0,
+    title: `Song ${identifier}`,
+    uri: `https://example.com/${identifier}`,
+    sourceName: 'http',
+    ...overrides,
+  });
+}
+
+function playlist(tracks: LavalinkTrack[], selectedTrack = 0): LavalinkPlaylist {
+  return { info: { name: 'Test', selectedTrack }, pluginInfo: {}, tracks };
+}
+
+function ids(result: LavalinkPlaylist): string[] {
+  return result.tracks.map(entry => entry.info.identifier);
+}
+
+describe('dedupe', () => {
+  const encoder = new PlaylistEncoder();
+
+  it('removes repeated identifiers, keeping the first copy', () => {
+    const result = encoder.dedupe(playlist([track('a'), track('b'), track('a'), track('c'), track('b')]));
+
+    expect(ids(result.playlist)).toEqual(['a', 'b', 'c']);
+    expect(result.removed.map(({ index, duplicateOf, strategy }) => ({ index, duplicateOf, strategy }))).toEqual([
+      { index: 2, duplicateOf: 0, strategy: 'identifier' },
+      { index: 4, duplicateOf: 1, strategy: 'identifier' },
+    ]);
+  });
+
+  it('keeps the last copy when asked to', () => {
+    const result = encoder.dedupe(playlist([track('a', { title: 'first' }), track('b'), track('a', { title: 'last' })]), {
+      keep: 'last',
+    });
+
+    expect(result.playlist.tracks.map(entry => entry.info.title)).toEqual(['Song b', 'last']);
+    expect(result.removed[0]).toMatchObject({ index: 0, duplicateOf: 2 });
+  });
+
+  it('matches by ISRC across sources and by URI', () => {
+    const tracks = [
+      track('a', { isrc: 'GBARL9300135' }),
+      track('b', { isrc: 'gb-arl-93-00135', sourceName: 'deezer' }),
+      track('c', { uri: 'https://example.com/shared' }),
+      track('d', { uri: 'https://example.com/shared' }),
+    ];
+
+    expect(ids(encoder.dedupe(playlist(tracks), { strategy: 'isrc' }).playlist)).toEqual(['a', 'c', 'd']);
+    expect(ids(encoder.dedupe(playlist(tracks), { strategy: ['isrc', 'uri'] }).playlist)).toEqual(['a', 'c']);
+  });
+
+  it('matches fuzzy duplicates within the duration tolerance', () => {
+    const tracks = [
+      track('a', { title: 'Harder Better Faster Stronger', author: 'Daft Punk', length: 224000 }),
+      track('b', { title: 'Harder, Better, Faster, Stronger (Official Video)', author: 'Daft Punk - Topic', length: 225500 }),
+      track('c', { title: 'Harder Better Faster Stronger', author: 'Daft Punk', length: 300000 }),
+      track('d', { title: 'Harder Better Faster Stronger', author: 'Someone Else', length: 224000 }),
+    ];
+
+    const result = encoder.dedupe(playlist(tracks), { strategy: 'fuzzy' });
+    expect(ids(result.playlist)).toEqual(['a', 'c', 'd']);
+    expect(result.removed[0]).toMatchObject({ index: 1, duplicateOf: 0, strategy: 'fuzzy' });
+  });
+
+  it('keeps the selection on the same song', () => {
+    expect(encoder.dedupe(playlist([track('a'), track('b'), track('c')], 2)).playlist.info.selectedTrack).toBe(2);
+    expect(encoder.dedupe(playlist([track('a'), track('b'), track('a'), track('c')], 3)).playlist.info.selectedTrack)
+      .toBe(2);
+    // A dropped selected track moves the selection to the kept copy
+    expect(encoder.dedupe(playlist([track('a'), track('b'), track('a')], 2)).playlist.info.selectedTrack).toBe(0);
+  });
+});
+
+describe('mergePlaylists', () => {
+  it('dedupes before applying maxTracks', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      const encoder = new PlaylistEncoder({ maxTracks: 3 });
+      const merged = encoder.mergePlaylists(
+        [playlist([track('a'), track('b')]), playlist([track('a'), track('c')])],
+        'Merged',
+        {}
+      );
+
+      expect(ids(merged)).toEqual(['a', 'b', 'c']);
+      expect(merged.info.name).toBe('Merged');
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('truncates to maxTracks once the deduped set is too large', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      const encoder = new PlaylistEncoder({ maxTracks: 2 });
+      const sources = [playlist([track('a'), track('b')]), playlist([track('a'), track('c')])];
+      const merged = encoder.mergePlaylists(sources, undefined, {});
+      expect(ids(merged)).toEqual(['a', 'b']);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('keeps duplicates without dedupe options', () => {
+    const sources = [playlist([track('a')]), playlist([track('a'), track('b')], 1)];
+    const merged = new PlaylistEncoder().mergePlaylists(sources);
+    expect(ids(merged)).toEqual(['a', 'a', 'b']);
+    expect(merged.info.name).toBe('Merged Playlist (2 playlists)');
+  });
+});
+
+describe('playlist editing', () => {
+  const encoder = new PlaylistEncoder();
+  const original = () => playlist([track('a'), track('b'), track('c'), track('d')], 1);
+
+  function selected(result: LavalinkPlaylist): string | null {
+    return result.tracks[result.info.selectedTrack]?.info.identifier ?? null;
+  }
+
+  it('leaves the input playlist unchanged', () => {
+    const input = original();
+    const before = JSON.stringify(input);
+    encoder.moveTrack(input, 0, 3);
+    encoder.removeTrack(input, 1);
+    encoder.insertTracks(input, 0, track('x'));
+    expect(JSON.stringify(input)).toBe(before);
+  });
+
+  it('keeps the selection on the same track when inserting', () => {
+    const result = encoder.insertTracks(original(), 0, [track('x'), track('y')]);
+    expect(ids(result)).toEqual(['x', 'y', 'a', 'b', 'c', 'd']);
+    expect(selected(result)).toBe('b');
+    expect(ids(encoder.insertTracks(original(), 4, track('z')))).toEqual(['a', 'b', 'c', 'd', 'z']);
+  });
+
+  it('encodes inserted tracks that have no encoded string', () => {
+    const info = track('x').info;
+    const result = encoder.insertTracks(original(), 1, { track: '', info });
+    expect(result.tracks[1].track).toBe(track('x').track);
+  });
+
+  it('clears the selection when the selected track is removed', () => {
+    expect(selected(encoder.removeTrack(original(), 0))).toBe('b');
+    expect(encoder.removeTrack(original(), 1).info.selectedTrack).toBe(-1);
+    const result = encoder.removeTracks(original(), entry => entry.info.identifier !== 'b');
+    expect(ids(result)).toEqual(['b']);
+    expect(result.info.selectedTrack).toBe(0);
+  });
+
+  it('accepts a playlist without a selection in the other playlist operations', () => {
+    const edited = encoder.removeTrack(original(), 1);
+
+    expect(encoder.mergePlaylists([edited, original()]).info.selectedTrack).toBe(-1);
+    expect(encoder.splitPlaylist(edited, 2).map(chunk => chunk.info.selectedTrack)).toEqual([-1, 0]);
+    expect(encoder.encodePlaylist(edited.info, edited.tracks).info.selectedTrack).toBe(-1);
+    expect(() => encoder.encodePlaylist({ name: 'P', selectedTrack: -2 }, edited.tracks))
+      .toThrow('Selected track must be a track index or -1 for no selection');
+  });
+
+  it('keeps the selection on the same track when moving and swapping', () => {
+    const moved = encoder.moveTrack(original(), 1, 3);
+    expect(ids(moved)).toEqual(['a', 'c', 'd', 'b']);
+    expect(selected(moved)).toBe('b');
+
+    const swapped = encoder.swapTracks(original(), 0, 2);
+    expect(ids(swapped)).toEqual(['c', 'b', 'a', 'd']);
+    expect(selected(swapped)).toBe('b');
+
+    const reversed = encoder.reversePlaylist(original());
+    expect(ids(reversed)).toEqual(['d', 'c', 'b', 'a']);
+    expect(selected(reversed)).toBe('b');
+  });
+
+  it('slices like Array.prototype.slice and keeps or clears the selection', () => {
+    expect(ids(encoder.slicePlaylist(original(), 1, 3))).toEqual(['b', 'c']);
+    expect(selected(encoder.slicePlaylist(original(), -3))).toBe('b');
+    expect(encoder.slicePlaylist(original(), 2).info.selectedTrack).toBe(-1);
+  });
+
+  it('keeps a replaced selected track selected', () => {
+    const result = encoder.replaceTrack(original(), 1, track('x'));
+    expect(ids(result)).toEqual(['a', 'x', 'c', 'd']);
+    expect(selected(result)).toBe('x');
+  });
+
+  it('rejects indices out of range and growth past maxTracks', () => {
+    expect(() => encoder.moveTrack(original(), 0, 4)).toThrow('Track index out of range: 4');
+    expect(() => encoder.removeTrack(original(), -1)).toThrow('Track index out of range: -1');
+    expect(() => encoder.insertTracks(original(), 5, track('x'))).toThrow('Track index out of range: 5');
+    expect(() => new PlaylistEncoder({ maxTracks: 4 }).insertTracks(original(), 0, track('x')))
+      .toThrow('Playlist cannot exceed 4 tracks');
+  });
+});
+
+describe('signed share codes', () => {
+  const signing = { keys: ['new-key-0123456789abcdef'] };
+
+  it('signs codes and reads them back', () => {
+    const encoder = new PlaylistEncoder({ signing });
+    const code = encoder.toShareCode(playlist([track('a'), track('b')], 1));
+
+    expect(code).toContain('~');
+    const shared = encoder.fromShareCode(code);
+    expect(shared.mode).toBe('full');
+    expect(shared.mode === 'full' && shared.playlist.tracks.map(entry => entry.info.identifier)).toEqual(['a', 'b']);
+  });
+
+  it('rejects unsigned, re-signed and tampered codes', () => {
+    const encoder = new PlaylistEncoder({ signing });
+    const unsigned = new PlaylistEncoder().toShareCode(playlist([track('a')]), { mode: 'reference' });
+    const otherKey = new PlaylistEncoder({ signing: { keys: ['other-key-0123456789abc'] } }).toShareCode(playlist([track('a')]));
+    const signed = encoder.toShareCode(playlist([track('a')]), { mode: 'reference' });
+    const tampered = `${signed.substring(0, 8)}${signed[8] === 'A' ? 'B' : 'A'}${signed.substring(9)}`;
+
+    expect(() => encoder.fromShareCode(unsigned)).toThrow('Invalid share code: not signed');
+    expect(() => encoder.fromShareCode(otherKey)).toThrow('Invalid share code: signature does not match');
+    expect(() => encoder.fromShareCode(tampered)).toThrow('Invalid share code: signature does not match');
+  });
+
+  it('does not accept a signed track as a share code', () => {
+    const code = new PlaylistEncoder().toShareCode(playlist([track('a')]));
+    const signedAsTrack = new TrackEncoder({ signing }).signTrack(code);
+
+    expect(() => new PlaylistEncoder({ signing }).fromShareCode(signedAsTrack)).toThrow('Invalid share code: signature does not match');
+  });
+});
@@ -1,5 +1,28 @@
-import { Playlist, PlaylistInfo, PlaylistEncoderOptions, LavalinkPlaylist, Track, TrackInfo } from '../types';
+import {
+  Playlist,
+  PlaylistInfo,
+  PlaylistEncoderOptions,
+  LavalinkPlaylist,
+  LavalinkTrack,
+  Track,
+  TrackInfo,
+  SourceTrackData,
+  DedupeStrategy,
+  PlaylistDedupeOptions,
+  PlaylistDedupeResult,
+  PlaylistFileFormat,
+  PlaylistFileImportOptions,
+  ImportedPlaylist,
+  CsvOptions,
+  ShareCodeOptions,
+  SharedPlaylist,
+} from '../types';
 import { TrackEncoder } from './TrackEncoder';
+import { TRACK_INFO_VERSION, HmacSigner, defaultSourceFieldRegistry } from '../codec';
+import { defaultSourceRegistry } from '../sources';
+import { normalizeIsrc } from '../utils/isrc';
+import { normalizeTitle, getTrackArtistKeys } from '../utils/normalize';
+import { parsePlaylistFile, writePlaylistFile, encodeShareCode, decodeShareCode } from '../formats';
 
 /**
  * Playlist encoder for Lavalink clients
@@ -7,13 +30,23 @@ import { TrackEncoder } from './TrackEncoder';
 export class PlaylistEncoder {
   private trackEncoder: TrackEncoder;
   private options: Required<PlaylistEncoderOptions>;
+  private signer?: HmacSigner;
+  /** Whether `sourceName` was configured, in which case it wins over URI detection */
+  private sourceNameConfigured: boolean;
 
   constructor(options: PlaylistEncoderOptions = {}) {
+    this.sourceNameConfigured = options.sourceName !== undefined;
     this.options = {
       includeArtwork: options.includeArtwork ?? true,
       includeISRC: options.includeISRC ?? true,
       sourceName: options.sourceName ?? 'unknown',
       validate: options.validate ?? true,
+      trackVersion: options.trackVersion ?? TRACK_INFO_VERSION,
+      sourceFields: options.sourceFields ?? defaultSourceFieldRegistry,
+      sources: options.sources ?? defaultSourceRegistry,
+      isrcPolicy: options.isrcPolicy ?? 'repair',
+      signing: options.signing ?? null,
+      safeDecoding: options.safeDecoding ?? false,
       maxTracks: options.maxTracks ?? 1000,
       includeMetadata: options.includeMetadata ?? true,
     };
@@ -21,8 +54,14 @@ export class PlaylistEncoder {
     this.trackEncoder = new TrackEncoder({
       includeArtwork: this.options.includeArtwork,
       includeISRC: this.options.includeISRC,
-      sourceName: this.options.sourceName,
+      ...(this.sourceNameConfigured && { sourceName: this.options.sourceName }),
       validate: this.options.validate,
+      trackVersion: this.options.trackVersion,
+      sourceFields: this.options.sourceFields,
+      sources: this.options.sources,
+      isrcPolicy: this.options.isrcPolicy,
+      signing: this.options.signing,
+      safeDecoding: this.options.safeDecoding,
     });
   }
 
@@ -41,15 +80,7 @@ export class PlaylistEncoder {
       : tracks;
 
     // Encode tracks using the track encoder
-    const encodedTracks = limitedTracks.map(track => {
-      if (typeof track.track === 'string' && track.track.length > 0) {
-        // Track is already encoded, just return it
-        return track;
-      } else {
-        // Track needs to be encoded
-        return this.trackEncoder.encodeTrack(track.info);
-      }
-    });
+    const encodedTracks = limitedTracks.map(track => this.ensureEncoded(track));
 
     const playlist: LavalinkPlaylist = {
       info: {
@@ -64,7 +95,8 @@ export class PlaylistEncoder {
   }
 
   /**
-   * Creates a playlist from track information array
+   * Creates a playlist from track information array. Tracks without a source get the
+   * configured `sourceName`, or one detected from their URI when none was configured.
    */
   public createPlaylist(
     name: string,
@@ -73,12 +105,35 @@ export class PlaylistEncoder {
   ): LavalinkPlaylist {
     const tracks: Track[] = trackInfos.map(trackInfo => ({
       track: '', // Will be encoded
-      info: trackInfo,
+      info: trackInfo.sourceName && trackInfo.sourceName !== 'unknown'
+        ? trackInfo
+        : {
+          ...trackInfo,
+          sourceName: this.sourceNameConfigured
+            ? this.options.sourceName
+            : this.options.sources.detect(trackInfo.uri) ?? this.options.sourceName,
+        },
     }));
 
     return this.encodePlaylist({ name, selectedTrack }, tracks);
   }
 
+  /**
+   * Creates a playlist for a registered source; durations are in the source's duration unit
+   */
+  public createSourcePlaylist(
+    sourceName: string,
+    name: string,
+    trackData: SourceTrackData[],
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const trackInfos: TrackInfo[] = trackData.map(track =>
+      this.options.sources.buildTrackInfo(sourceName, track, {}, this.options.validate)
+    );
+
+    return this.createPlaylist(name, trackInfos, selectedTrack);
+  }
+
   /**
    * Creates a playlist from YouTube playlist data
    */
@@ -93,19 +148,14 @@ export class PlaylistEncoder {
     }>,
     selectedTrack: number = 0
   ): LavalinkPlaylist {
-    const trackInfos: TrackInfo[] = videoData.map(video => ({
+    const tracks: SourceTrackData[] = videoData.map(video => ({
       identifier: video.videoId,
       title: video.title,
       author: video.author,
-      length: video.duration * 1000, // Convert seconds to milliseconds
-      uri: `https://www.youtube.com/watch?v=${video.videoId}`,
-      isSeekable: video.duration > 0,
-      isStream: video.duration === 0,
-      position: 0,
-      sourceName: 'youtube',
+      duration: video.duration,
     }));
 
-    return this.createPlaylist(name, trackInfos, selectedTrack);
+    return this.createSourcePlaylist('youtube', name, tracks, selectedTrack);
   }
 
   /**
@@ -122,19 +172,14 @@ export class PlaylistEncoder {
     }>,
     selectedTrack: number = 0
   ): LavalinkPlaylist {
-    const trackInfos: TrackInfo[] = trackData.map(track => ({
+    const tracks: SourceTrackData[] = trackData.map(track => ({
       identifier: track.trackId,
       title: track.title,
       author: track.author,
-      length: track.duration,
-      uri: `https://open.spotify.com/track/${track.trackId}`,
-      isSeekable: track.duration > 0,
-      isStream: track.duration === 0,
-      position: 0,
-      sourceName: 'spotify',
+      duration: track.duration,
     }));
 
-    return this.createPlaylist(name, trackInfos, selectedTrack);
+    return this.createSourcePlaylist('spotify', name, tracks, selectedTrack);
   }
 
   /**
@@ -151,26 +196,217 @@ export class PlaylistEncoder {
     }>,
     selectedTrack: number = 0
   ): LavalinkPlaylist {
-    const trackInfos: TrackInfo[] = trackData.map(track => ({
+    const tracks: SourceTrackData[] = trackData.map(track => ({
       identifier: track.trackId,
       title: track.title,
       author: track.author,
-      length: track.duration,
-      uri: `https://soundcloud.com/${track.author}/${track.title}`,
-      isSeekable: track.duration > 0,
-      isStream: track.duration === 0,
-      position: 0,
-      sourceName: 'soundcloud',
+      duration: track.duration,
     }));
 
-    return this.createPlaylist(name, trackInfos, selectedTrack);
+    return this.createSourcePlaylist('soundcloud', name, tracks, selectedTrack);
+  }
+
+  /**
+   * Creates a playlist from Apple Music playlist data
+   */
+  public createAppleMusicPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createSourcePlaylist('applemusic', name, tracks, selectedTrack);
+  }
+
+  /**
+   * Creates a playlist from Deezer playlist data
+   */
+  public createDeezerPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createSourcePlaylist('deezer', name, tracks, selectedTrack);
+  }
+
+  /**
+   * Creates a playlist from Bandcamp playlist data
+   */
+  public createBandcampPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createSourcePlaylist('bandcamp', name, tracks, selectedTrack);
+  }
+
+  /**
+   * Creates a playlist from Twitch channels
+   */
+  public createTwitchPlaylist(
+    playlistId: string,
+    name: string,
+    streamData: Array<{
+      channel: string;
+      title: string;
+      author: string;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const tracks: SourceTrackData[] = streamData.map(stream => ({
+      identifier: stream.channel,
+      title: stream.title,
+      author: stream.author,
+      duration: 0,
+    }));
+
+    return this.createSourcePlaylist('twitch', name, tracks, selectedTrack);
+  }
+
+  /**
+   * Creates a playlist from Vimeo playlist data
+   */
+  public createVimeoPlaylist(
+    playlistId: string,
+    name: string,
+    videoData: Array<{
+      videoId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const tracks: SourceTrackData[] = videoData.map(video => ({
+      identifier: video.videoId,
+      title: video.title,
+      author: video.author,
+      duration: video.duration,
+    }));
+
+    return this.createSourcePlaylist('vimeo', name, tracks, selectedTrack);
+  }
+
+  /**
+   * Creates a playlist from Yandex Music playlist data
+   */
+  public createYandexMusicPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      trackId: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.trackId,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createSourcePlaylist('yandexmusic', name, tracks, selectedTrack);
+  }
+
+  /**
+   * Creates a playlist from direct media URLs
+   */
+  public createHttpPlaylist(
+    playlistId: string,
+    name: string,
+    trackData: Array<{
+      url: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const tracks: SourceTrackData[] = trackData.map(track => ({
+      identifier: track.url,
+      title: track.title,
+      author: track.author,
+      duration: track.duration,
+    }));
+
+    return this.createSourcePlaylist('http', name, tracks, selectedTrack);
+  }
+
+  /**
+   * Creates a playlist from local files
+   */
+  public createLocalPlaylist(
+    playlistId: string,
+    name: string,
+    fileData: Array<{
+      path: string;
+      title: string;
+      author: string;
+      duration: number;
+    }>,
+    selectedTrack: number = 0
+  ): LavalinkPlaylist {
+    const tracks: SourceTrackData[] = fileData.map(file => ({
+      identifier: file.path,
+      title: file.title,
+      author: file.author,
+      duration: file.duration,
+    }));
+
+    return this.createSourcePlaylist('local', name, tracks, selectedTrack);
   }
 
   /**
-   * Merges multiple playlists into one
+   * Merges multiple playlists into one, optionally removing duplicate tracks. Duplicates
+   * are removed before the `maxTracks` limit applies.
    */
-  public mergePlaylists(playlists: LavalinkPlaylist[], newName?: string): LavalinkPlaylist {
-    const allTracks: Track[] = [];
+  public mergePlaylists(
+    playlists: LavalinkPlaylist[],
+    newName?: string,
+    dedupeOptions?: PlaylistDedupeOptions
+  ): LavalinkPlaylist {
+    const allTracks: LavalinkTrack[] = [];
     let totalSelectedTrack = 0;
 
     playlists.forEach((playlist, index) => {
@@ -181,11 +417,89 @@ export class PlaylistEncoder {
     });
 
     const name = newName || `Merged Playlist (${playlists.length} playlists)`;
-    
-    return this.encodePlaylist(
-      { name, selectedTrack: totalSelectedTrack },
-      allTracks
-    );
+    const combined: LavalinkPlaylist = {
+      info: { name, selectedTrack: totalSelectedTrack },
+      pluginInfo: {},
+      tracks: allTracks,
+    };
+
+    const merged = dedupeOptions ? this.dedupe(combined, dedupeOptions).playlist : combined;
+    return this.encodePlaylist(merged.info, merged.tracks);
+  }
+
+  /**
+   * Removes duplicate tracks from a playlist, keeping the first or last copy of each,
+   * and reports what was dropped
+   */
+  public dedupe(playlist: LavalinkPlaylist, options: PlaylistDedupeOptions = {}): PlaylistDedupeResult {
+    const strategies = ([] as DedupeStrategy[]).concat(options.strategy ?? 'identifier');
+    const tolerance = options.durationTolerance ?? 2000;
+    const tracks = playlist.tracks;
+
+    const order = tracks.map((_, index) => index);
+    if (options.keep === 'last') {
+      order.reverse();
+    }
+
+    const seen = new Map<string, number>();
+    const byTitle = new Map<string, number[]>();
+    const duplicates = new Map<number, { duplicateOf: number; strategy: DedupeStrategy }>();
+
+    for (const index of order) {
+      const keys: string[] = [];
+      let duplicate: { duplicateOf: number; strategy: DedupeStrategy } | undefined;
+
+      for (const strategy of strategies) {
+        const original = strategy === 'fuzzy'
+          ? this.findFuzzyDuplicate(tracks, index, byTitle, tolerance)
+          : this.findKeyedDuplicate(tracks[index], strategy, seen, keys);
+        if (original !== undefined) {
+          duplicate = { duplicateOf: original, strategy };
+          break;
+        }
+      }
+
+      if (duplicate) {
+        duplicates.set(index, duplicate);
+        continue;
+      }
+
+      keys.forEach(key => seen.set(key, index));
+      if (strategies.includes('fuzzy')) {
+        const title = normalizeTitle(tracks[index].info.title);
+        const titled = byTitle.get(title);
+        if (titled) {
+          titled.push(index);
+        } else {
+          byTitle.set(title, [index]);
+        }
+      }
+    }
+
+    const newIndices = new Map<number, number>();
+    const keptTracks: LavalinkTrack[] = [];
+    tracks.forEach((track, index) => {
+      if (!duplicates.has(index)) {
+        newIndices.set(index, keptTracks.length);
+        keptTracks.push(track);
+      }
+    });
+
+    // Point the selection at the surviving copy of the selected song
+    const selected = playlist.info.selectedTrack;
+    const survivor = duplicates.get(selected)?.duplicateOf ?? selected;
+    const selectedTrack = newIndices.get(survivor) ?? selected;
+
+    return {
+      playlist: {
+        ...playlist,
+        info: { ...playlist.info, selectedTrack },
+        tracks: keptTracks,
+      },
+      removed: Array.from(duplicates.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([index, duplicate]) => ({ index, track: tracks[index], ...duplicate })),
+    };
   }
 
   /**
@@ -212,14 +526,292 @@ export class PlaylistEncoder {
   }
 
   /**
-   * Validates playlist information
+   * Imports an M3U, PLS, XSPF, JSPF or CSV playlist file, detecting each entry's source. Entries
+   * that cannot be mapped to a track are reported instead of failing the import.
+   */
+  public importPlaylist(content: string, options: PlaylistFileImportOptions = {}): ImportedPlaylist {
+    const result = parsePlaylistFile(content, options.format, {
+      sources: options.sources ?? this.options.sources,
+      fallbackSource: options.fallbackSource,
+      csv: options.csv,
+    });
+    if (result.tracks.length === 0) {
+      throw new Error('No entries in the playlist file could be mapped to tracks');
+    }
+
+    return {
+      playlist: this.createPlaylist(result.name ?? options.name ?? 'Imported Playlist', result.tracks),
+      unmapped: result.unmapped,
+    };
+  }
+
+  /**
+   * Exports a playlist as an M3U, PLS, XSPF, JSPF or CSV file
+   */
+  public exportPlaylist(playlist: LavalinkPlaylist, format: PlaylistFileFormat, csv?: CsvOptions): string {
+    return writePlaylistFile(format, playlist.tracks.map(track => track.info), playlist.info.name, csv);
+  }
+
+  /**
+   * Packs a playlist into a short URL-safe code users can paste to import it. The
+   * `reference` mode stores only each track's source and identifier, for a shorter code.
+   * With the `signing` option the code is signed.
+   */
+  public toShareCode(playlist: LavalinkPlaylist, options: ShareCodeOptions = {}): string {
+    const { name, selectedTrack } = playlist.info;
+    const tracks = playlist.tracks.map(track => this.ensureEncoded(track));
+
+    const code = options.mode === 'reference'
+      ? encodeShareCode({
+          mode: 'reference',
+          name,
+          selectedTrack,
+          tracks: tracks.map(track => ({ sourceName: track.info.sourceName, identifier: track.info.identifier })),
+        })
+      : encodeShareCode({ mode: 'full', name, selectedTrack, tracks: tracks.map(track => track.track) });
+
+    return this.options.signing ? this.getSigner().sign(code, 'share-code') : code;
+  }
+
+  /**
+   * Reads a share code created by `toShareCode`, decoding the tracks of full codes.
+   * With the `signing` option only codes with a valid signature are accepted.
+   */
+  public fromShareCode(code: string): SharedPlaylist {
+    let unsigned = code.trim();
+    if (this.options.signing) {
+      const signer = this.getSigner();
+      if (!signer.isSigned(unsigned)) {
+        throw new Error('Invalid share code: not signed');
+      }
+      try {
+        unsigned = signer.verify(unsigned, 'share-code');
+      } catch {
+        throw new Error('Invalid share code: signature does not match');
+      }
+    }
+
+    const payload = decodeShareCode(unsigned);
+    if (payload.mode === 'reference') {
+      return payload;
+    }
+
+    return {
+      mode: 'full',
+      playlist: {
+        info: { name: payload.name, selectedTrack: payload.selectedTrack },
+        pluginInfo: {},
+        tracks: payload.tracks.map(track => ({ track, info: this.trackEncoder.decodeTrack(track) })),
+      },
+    };
+  }
+
+  /**
+   * Returns a copy of a playlist with tracks inserted at an index; unencoded tracks are encoded
+   */
+  public insertTracks(playlist: LavalinkPlaylist, index: number, tracks: Track | Track[]): LavalinkPlaylist {
+    if (!Number.isInteger(index) || index < 0 || index > playlist.tracks.length) {
+      throw new Error(`Track index out of range: ${index}`);
+    }
+    const order: Array<number | Track> = this.indicesOf(playlist);
+    order.splice(index, 0, ...(Array.isArray(tracks) ? tracks : [tracks]));
+    return this.rearrange(playlist, order);
+  }
+
+  /**
+   * Returns a copy of a playlist without the track at an index
+   */
+  public removeTrack(playlist: LavalinkPlaylist, index: number): LavalinkPlaylist {
+    this.requireTrackIndex(playlist, index);
+    return this.removeTracks(playlist, (_, trackIndex) => trackIndex === index);
+  }
+
+  /**
+   * Returns a copy of a playlist without the tracks matching a predicate
+   */
+  public removeTracks(
+    playlist: LavalinkPlaylist,
+    predicate: (track: LavalinkTrack, index: number) => boolean
+  ): LavalinkPlaylist {
+    return this.rearrange(playlist, this.indicesOf(playlist).filter(index => !predicate(playlist.tracks[index], index)));
+  }
+
+  /**
+   * Returns a copy of a playlist with a track moved to another position
+   */
+  public moveTrack(playlist: LavalinkPlaylist, from: number, to: number): LavalinkPlaylist {
+    this.requireTrackIndex(playlist, from);
+    this.requireTrackIndex(playlist, to);
+    const order = this.indicesOf(playlist);
+    order.splice(to, 0, ...order.splice(from, 1));
+    return this.rearrange(playlist, order);
+  }
+
+  /**
+   * Returns a copy of a playlist with two tracks swapped
+   */
+  public swapTracks(playlist: LavalinkPlaylist, first: number, second: number): LavalinkPlaylist {
+    this.requireTrackIndex(playlist, first);
+    this.requireTrackIndex(playlist, second);
+    const order = this.indicesOf(playlist);
+    [order[first], order[second]] = [order[second], order[first]];
+    return this.rearrange(playlist, order);
+  }
+
+  /**
+   * Returns a copy of a playlist with its tracks in reverse order
+   */
+  public reversePlaylist(playlist: LavalinkPlaylist): LavalinkPlaylist {
+    return this.rearrange(playlist, this.indicesOf(playlist).reverse());
+  }
+
+  /**
+   * Returns a copy of a playlist with the tracks from `start` up to, not including, `end`.
+   * Negative indices count from the end, as with `Array.prototype.slice`.
+   */
+  public slicePlaylist(playlist: LavalinkPlaylist, start?: number, end?: number): LavalinkPlaylist {
+    return this.rearrange(playlist, this.indicesOf(playlist).slice(start, end));
+  }
+
+  /**
+   * Returns a copy of a playlist with the track at an index replaced; a replaced selected
+   * track stays selected
+   */
+  public replaceTrack(playlist: LavalinkPlaylist, index: number, track: Track): LavalinkPlaylist {
+    this.requireTrackIndex(playlist, index);
+    const order: Array<number | Track> = this.indicesOf(playlist);
+    order[index] = track;
+    return this.rearrange(playlist, order, playlist.info.selectedTrack);
+  }
+
+  /**
+   * Builds an edited playlist from a new track order, given as indices into the original
+   * tracks or new tracks. The selection follows the selected track, or becomes -1 when
+   * it was removed. Only edits that add tracks are held to `maxTracks`.
+   */
+  private rearrange(
+    playlist: LavalinkPlaylist,
+    order: Array<number | Track>,
+    selectedTrack?: number
+  ): LavalinkPlaylist {
+    const { maxTracks } = this.options;
+    if (maxTracks > 0 && order.length > playlist.tracks.length && order.length > maxTracks) {
+      throw new Error(`Playlist cannot exceed ${maxTracks} tracks`);
+    }
+
+    const selected = playlist.info.selectedTrack;
+    return {
+      ...playlist,
+      info: {
+        ...playlist.info,
+        selectedTrack: selectedTrack ?? (selected >= 0 ? order.indexOf(selected) : -1),
+      },
+      tracks: order.map(entry => (typeof entry === 'number' ? playlist.tracks[entry] : this.ensureEncoded(entry))),
+    };
+  }
+
+  private indicesOf(playlist: LavalinkPlaylist): number[] {
+    return playlist.tracks.map((_, index) => index);
+  }
+
+  private requireTrackIndex(playlist: LavalinkPlaylist, index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= playlist.tracks.length) {
+      throw new Error(`Track index out of range: ${index}`);
+    }
+  }
+
+  private getSigner(): HmacSigner {
+    if (!this.options.signing) {
+      throw new Error('Share code signing is not configured; set the signing option');
+    }
+    if (!this.signer) {
+      this.signer = new HmacSigner(this.options.signing);
+    }
+    return this.signer;
+  }
+
+  /**
+   * Encodes a track unless it already carries an encoded string
+   */
+  private ensureEncoded(track: Track): LavalinkTrack {
+    return typeof track.track === 'string' && track.track.length > 0
+      ? track
+      : this.trackEncoder.encodeTrack(track.info);
+  }
+
+  /**
+   * Looks up a track's identity key for a strategy, collecting the key when it is new
+   */
+  private findKeyedDuplicate(
+    track: LavalinkTrack,
+    strategy: Exclude<DedupeStrategy, 'fuzzy'>,
+    seen: Map<string, number>,
+    keys: string[]
+  ): number | undefined {
+    let key: string | null;
+    switch (strategy) {
+      case 'encoded':
+        key = track.track || null;
+        break;
+      case 'identifier':
+        key = `${track.info.sourceName}:${track.info.identifier}`;
+        break;
+      case 'uri':
+        key = track.info.uri?.trim() || null;
+        break;
+      case 'isrc':
+        key = normalizeIsrc(track.info.isrc);
+        break;
+    }
+
+    if (key === null) {
+      return undefined;
+    }
+    key = `${strategy}:${key}`;
+    const original = seen.get(key);
+    if (original === undefined) {
+      keys.push(key);
+    }
+    return original;
+  }
+
+  /**
+   * Finds a kept track with the same normalized title, a shared artist and a close duration.
+   * Tracks whose ISRCs differ are different recordings.
+   */
+  private findFuzzyDuplicate(
+    tracks: LavalinkTrack[],
+    index: number,
+    byTitle: Map<string, number[]>,
+    tolerance: number
+  ): number | undefined {
+    const info = tracks[index].info;
+    const candidates = byTitle.get(normalizeTitle(info.title));
+    if (!candidates) {
+      return undefined;
+    }
+
+    const isrc = normalizeIsrc(info.isrc);
+    const artists = getTrackArtistKeys(info.title, info.author);
+
+    return candidates.find(candidate => {
+      const other = tracks[candidate].info;
+      const otherIsrc = normalizeIsrc(other.isrc);
+      return (isrc === null || otherIsrc === null || isrc === otherIsrc) &&
+        getTrackArtistKeys(other.title, other.author).some(artist => artists.includes(artist)) &&
+        Math.abs(other.length - info.length) <= tolerance;
+    });
+  }
+
+  /**
+   * Validates playlist information. A selected track of -1 is Lavalink's "no selection".
    */
   private validatePlaylistInfo(playlistInfo: PlaylistInfo): void {
     if (!playlistInfo.name) {
       throw new Error('Playlist name is required');
     }
-    if (typeof playlistInfo.selectedTrack !== 'number' || playlistInfo.selectedTrack < 0) {
-      throw new Error('Selected track must be a non-negative number');
+    if (typeof playlistInfo.selectedTrack !== 'number' || playlistInfo.selectedTrack < -1) {
+      throw new Error('Selected track must be a track index or -1 for no selection');
     }
   }
 
@@ -243,12 +835,20 @@ export class PlaylistEncoder {
    */
   public updateOptions(options: Partial<PlaylistEncoderOptions>): void {
     this.options = { ...this.options, ...options };
+    this.sourceNameConfigured = this.sourceNameConfigured || options.sourceName !== undefined;
     this.trackEncoder.updateOptions({
       includeArtwork: this.options.includeArtwork,
       includeISRC: this.options.includeISRC,
-      sourceName: this.options.sourceName,
+      ...(this.sourceNameConfigured && { sourceName: this.options.sourceName }),
       validate: this.options.validate,
+      trackVersion: this.options.trackVersion,
+      sourceFields: this.options.sourceFields,
+      sources: this.options.sources,
+      isrcPolicy: this.options.isrcPolicy,
+      signing: this.options.signing,
+      safeDecoding: this.options.safeDecoding,
     });
+    this.signer = undefined;
   }
 
   /**
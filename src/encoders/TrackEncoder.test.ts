@@ -0,0 +1,169 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { TrackEncoder } from './TrackEncoder';
+
+function legacyTrack(info: object): string {
+  return Buffer.from(JSON.stringify(info), 'utf8').toString('base64');
+}
+
+describe('legacy JSON tracks', () => {
+  const encoder = new TrackEncoder();
+
+  it('detects Lavaplayer, legacy JSON and unknown formats', () => {
+    expect(encoder.detectFormat(encoder.encodeTrack(trackInfo()).track)).toBe('lavaplayer');
+    expect(encoder.detectFormat(legacyTrack(trackInfo()))).toBe('legacy-json');
+    expect(encoder.detectFormat(Buffer.from('not a track').toString('base64'))).toBe('unknown');
+    expect(encoder.detectFormat('%%%')).toBe('unknown');
+  });
+
+  it('decodes legacy JSON tracks transparently', () => {
+    expect(encoder.decodeTrack(legacyTrack(trackInfo()))).toEqual(trackInfo());
+  });
+
+  it('migrates legacy tracks and reports every index', () => {
+    const current = encoder.encodeTrack(trackInfo({ identifier: 'current' })).track;
+    const legacy = legacyTrack(trackInfo({ identifier: 'legacy' }));
+    const broken = legacyTrack({ title: 'no identifier' });
+    const garbage = Buffer.from('garbage').toString('base64');
+
+    const report = encoder.migrateLegacyTracks([current, legacy, broken, garbage]);
+
+    expect(report.unchanged).toEqual([0]);
+    expect(report.migrated).toEqual([1]);
+    expect(report.failed.map(failure => failure.index)).toEqual([2, 3]);
+    expect(report.tracks[0]).toBe(current);
+    expect(report.tracks[2]).toBe(broken);
+    expect(report.tracks[3]).toBe(garbage);
+    expect(encoder.detectFormat(report.tracks[1])).toBe('lavaplayer');
+    expect(encoder.decodeTrack(report.tracks[1])).toEqual(trackInfo({ identifier: 'legacy' }));
+  });
+
+  it('leaves already migrated tracks untouched on a second run', () => {
+    const first = encoder.migrateLegacyTracks([legacyTrack(trackInfo())]);
+    const second = encoder.migrateLegacyTracks(first.tracks);
+
+    expect(second.tracks).toEqual(first.tracks);
+    expect(second.unchanged).toEqual([0]);
+    expect(second.migrated).toEqual([]);
+  });
+});
+
+describe('createTrack', () => {
+  it('detects the source from the URI when no source name is configured', () => {
+    const track = new TrackEncoder().createTrack('abc', 'Title', 'Author', 1000, 'https://soundcloud.com/artist/song');
+    expect(track.info.sourceName).toBe('soundcloud');
+  });
+
+  it('falls back to unknown for URIs no source recognizes', () => {
+    const track = new TrackEncoder().createTrack('abc', 'Title', 'Author', 1000, 'https://example.com/song');
+    expect(track.info.sourceName).toBe('unknown');
+  });
+
+  it('uses a configured source name over the detected one', () => {
+    const encoder = new TrackEncoder({ sourceName: 'http' });
+    expect(encoder.createTrack('abc', 'Title', 'Author', 1000, 'https://soundcloud.com/artist/song').info.sourceName)
+      .toBe('http');
+  });
+
+  it('uses a source name configured later through updateOptions', () => {
+    const encoder = new TrackEncoder();
+    encoder.updateOptions({ sourceName: 'http' });
+    expect(encoder.createTrack('abc', 'Title', 'Author', 1000, 'https://soundcloud.com/artist/song').info.sourceName)
+      .toBe('http');
+  });
+
+  it('lets additional info set the source name', () => {
+    const track = new TrackEncoder({ sourceName: 'http' })
+      .createTrack('abc', 'Title', 'Author', 1000, 'https://soundcloud.com/artist/song', { sourceName: 'local' });
+    expect(track.info.sourceName).toBe('local');
+  });
+});
+
+describe('signed tracks', () => {
+  const signing = { keys: ['new-key-0123456789abcdef', 'old-key-0123456789abcdef'] };
+
+  it('signs, verifies and decodes a track', () => {
+    const encoder = new TrackEncoder({ signing });
+    const { track } = encoder.encodeTrack(trackInfo());
+    const signed = encoder.signTrack(track);
+
+    expect(encoder.verifyTrack(signed)).toBe(track);
+    expect(encoder.decodeSignedTrack(signed)).toEqual(trackInfo());
+    expect(() => encoder.verifyTrack(track)).toThrow('Failed to verify track: Value is not signed');
+    expect(() => encoder.verifyTrack(signed.replace(/^Q/, 'R'))).toThrow('Failed to verify track: Invalid signature');
+  });
+
+  it('keeps accepting tracks signed with a rotated-out key while it is listed', () => {
+    const old = new TrackEncoder({ signing: { keys: ['old-key-0123456789abcdef'] } });
+    const { track } = old.encodeTrack(trackInfo());
+    const signed = old.signTrack(track);
+    const encoder = new TrackEncoder({ signing });
+
+    expect(encoder.verifyTrack(signed)).toBe(track);
+    encoder.updateOptions({ signing: { keys: ['new-key-0123456789abcdef'] } });
+    expect(() => encoder.verifyTrack(signed)).toThrow('Failed to verify track: Invalid signature');
+  });
+
+  it('requires the signing option', () => {
+    const encoder = new TrackEncoder();
+
+    expect(() => encoder.signTrack('QAAA')).toThrow('Track signing is not configured; set the signing option');
+    expect(() => encoder.verifyTrack('QAAA~AAAA')).toThrow('Failed to verify track: Track signing is not configured');
+  });
+});
+
+describe('safe decoding', () => {
+  const plain = new TrackEncoder();
+  const safe = new TrackEncoder({ safeDecoding: { maxInputSize: 512, maxStringLength: 64 } });
+
+  it('is off by default', () => {
+    const { track } = plain.encodeTrack(trackInfo({ title: 'x'.repeat(200) }));
+
+    expect(plain.decodeTrack(track).title).toHaveLength(200);
+  });
+
+  it('decodes tracks within the limits unchanged', () => {
+    const { track } = plain.encodeTrack(trackInfo());
+
+    expect(safe.decodeTrack(track)).toEqual(trackInfo());
+  });
+
+  it('rejects oversized input and long strings with a TrackDecodeError', () => {
+    const longTitle = plain.encodeTrack(trackInfo({ title: 'x'.repeat(65) })).track;
+    const oversized = plain.encodeTrack(trackInfo({ title: 'x'.repeat(600) })).track;
+
+    expect(() => safe.decodeTrack(longTitle)).toThrow(expect.objectContaining({ name: 'TrackDecodeError', limit: 'stringLength', field: 'title' }));
+    expect(() => safe.decodeTrack(oversized)).toThrow(expect.objectContaining({ name: 'TrackDecodeError', limit: 'inputSize' }));
+    expect(() => safe.decodeTrack('!!!')).toThrow('Failed to decode track');
+  });
+
+  it('checks legacy JSON tracks and ignores prototype keys in them', () => {
+    const polluted = Buffer.from(
+      `{"__proto__":{"polluted":true},${JSON.stringify(trackInfo()).substring(1)}`,
+      'utf8'
+    ).toString('base64');
+    const wrongType = legacyTrack({ ...trackInfo(), length: '212000' });
+
+    expect(safe.decodeTrack(polluted)).toEqual(trackInfo());
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(() => safe.decodeTrack(wrongType)).toThrow(expect.objectContaining({ limit: 'fieldType', field: 'length' }));
+  });
+
+  it('reports rejected tracks of a batch at their own index', () => {
+    const good = plain.encodeTrack(trackInfo()).track;
+    const longTitle = plain.encodeTrack(trackInfo({ title: 'x'.repeat(65) })).track;
+    const oversized = plain.encodeTrack(trackInfo({ title: 'x'.repeat(600) })).track;
+    const results = safe.decodeBatch([oversized, good, longTitle, good]);
+
+    expect(results.map(result => (result.success ? 'ok' : result.index))).toEqual([0, 'ok', 2, 'ok']);
+    expect(results[0]).toMatchObject({ error: expect.stringContaining('byte limit') });
+    expect(results[2]).toMatchObject({ error: expect.stringContaining('character limit') });
+  });
+
+  it('checks each track of a concatenated buffer', () => {
+    const buffer = plain.encodeBatchToBuffer([trackInfo(), trackInfo({ author: 'y'.repeat(65) })]);
+    const results = safe.decodeBatchFromBuffer(buffer);
+
+    expect(results[0]).toEqual({ success: true, track: trackInfo() });
+    expect(results[1]).toMatchObject({ success: false, index: 1, error: expect.stringContaining('Track field author') });
+  });
+});
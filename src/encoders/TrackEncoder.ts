@@ -1,4 +1,32 @@
-import { Track, TrackInfo, EncoderOptions, LavalinkTrack } from '../types';
+import {
+  Track,
+  TrackInfo,
+  EncoderOptions,
+  LavalinkTrack,
+  TrackFormat,
+  TrackMigrationReport,
+  BatchDecodeResult,
+  BatchEncodeResult,
+  SourceTrackData,
+  SafeDecodingOptions,
+} from '../types';
+import {
+  BatchTrackCodec,
+  HmacSigner,
+  TrackDecodeError,
+  resolveSafeDecodingLimits,
+  checkTrackInputSize,
+  sanitizeTrackInfo,
+  encodeTrackBytes,
+  decodeTrackBytes,
+  decodeLegacyTrackBytes,
+  detectTrackFormat,
+  TRACK_INFO_VERSION,
+  defaultSourceFieldRegistry,
+  fromBase64,
+} from '../codec';
+import { defaultSourceRegistry } from '../sources';
+import { normalizeIsrc } from '../utils/isrc';
 import * as base64 from 'base64-js';
 
 /**
@@ -6,13 +34,24 @@ import * as base64 from 'base64-js';
  */
 export class TrackEncoder {
   private options: Required<EncoderOptions>;
+  private batchCodec?: BatchTrackCodec;
+  private signer?: HmacSigner;
+  /** Whether `sourceName` was configured, in which case it wins over URI detection */
+  private sourceNameConfigured: boolean;
 
   constructor(options: EncoderOptions = {}) {
+    this.sourceNameConfigured = options.sourceName !== undefined;
     this.options = {
       includeArtwork: options.includeArtwork ?? true,
       includeISRC: options.includeISRC ?? true,
       sourceName: options.sourceName ?? 'unknown',
       validate: options.validate ?? true,
+      trackVersion: options.trackVersion ?? TRACK_INFO_VERSION,
+      sourceFields: options.sourceFields ?? defaultSourceFieldRegistry,
+      sources: options.sources ?? defaultSourceRegistry,
+      isrcPolicy: options.isrcPolicy ?? 'repair',
+      signing: options.signing ?? null,
+      safeDecoding: options.safeDecoding ?? false,
     };
   }
 
@@ -20,11 +59,108 @@ export class TrackEncoder {
    * Encodes a track info object into a Lavalink-compatible track
    */
   public encodeTrack(trackInfo: TrackInfo): LavalinkTrack {
+    const trackData = this.prepareTrackData(trackInfo);
+    const encodedTrack = this.encodeTrackData(trackData);
+    // Report a repaired or dropped ISRC the way it was encoded
+    const isrcChanged = this.options.includeISRC && trackInfo.isrc !== undefined && trackData.isrc !== trackInfo.isrc;
+    
+    return {
+      track: encodedTrack,
+      info: isrcChanged ? { ...trackInfo, isrc: trackData.isrc } : trackInfo,
+    };
+  }
+
+  /**
+   * Decodes many tracks (base64 strings or raw message bytes) with reused buffers,
+   * reporting failures per index like `decodeMultipleTracks`
+   */
+  public decodeBatch(inputs: Array<string | Uint8Array>): BatchDecodeResult[] {
+    const limits = resolveSafeDecodingLimits(this.options.safeDecoding);
+    if (!limits) {
+      return this.getBatchCodec().decode(inputs);
+    }
+
+    // Oversized inputs are rejected before the codec sees them, the rest are checked after
+    const rejected = new Map<number, string>();
+    const accepted: Array<string | Uint8Array> = [];
+    const positions: number[] = [];
+    inputs.forEach((input, index) => {
+      try {
+        checkTrackInputSize(input, limits);
+        accepted.push(input);
+        positions.push(index);
+      } catch (error) {
+        rejected.set(index, error instanceof Error ? error.message : 'Unknown error');
+      }
+    });
+
+    const results: BatchDecodeResult[] = new Array(inputs.length);
+    rejected.forEach((error, index) => {
+      results[index] = { success: false, error, index };
+    });
+    this.sanitizeBatch(this.getBatchCodec().decode(accepted), limits).forEach((result, i) => {
+      results[positions[i]] = result.success ? result : { ...result, index: positions[i] };
+    });
+    return results;
+  }
+
+  /**
+   * Encodes many tracks with reused buffers, reporting failures per index
+   */
+  public encodeBatch(trackInfos: TrackInfo[]): BatchEncodeResult[] {
+    const results: BatchEncodeResult[] = new Array(trackInfos.length);
+    const prepared: TrackInfo[] = [];
+    const preparedIndices: number[] = [];
+
+    trackInfos.forEach((trackInfo, index) => {
+      try {
+        prepared.push(this.prepareTrackData(trackInfo));
+        preparedIndices.push(index);
+      } catch (error) {
+        results[index] = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          index,
+        };
+      }
+    });
+
+    this.getBatchCodec().encode(prepared).forEach((result, i) => {
+      const index = preparedIndices[i];
+      results[index] = result.success ? result : { ...result, index };
+    });
+
+    return results;
+  }
+
+  /**
+   * Decodes tracks stored back-to-back in one buffer, as written by `encodeBatchToBuffer`.
+   * Safe decoding checks each decoded track but not the buffer's total size.
+   */
+  public decodeBatchFromBuffer(bytes: Uint8Array): BatchDecodeResult[] {
+    const results = this.getBatchCodec().decodeConcatenated(bytes);
+    const limits = resolveSafeDecodingLimits(this.options.safeDecoding);
+    return limits ? this.sanitizeBatch(results, limits) : results;
+  }
+
+  /**
+   * Encodes tracks back-to-back into one buffer, e.g. to store a saved queue
+   */
+  public encodeBatchToBuffer(trackInfos: TrackInfo[]): Uint8Array {
+    return this.getBatchCodec().encodeConcatenated(trackInfos.map(trackInfo => this.prepareTrackData(trackInfo)));
+  }
+
+  /**
+   * Validates track info and applies the encoder options to it
+   */
+  private prepareTrackData(trackInfo: TrackInfo): TrackInfo {
     if (this.options.validate) {
       this.validateTrackInfo(trackInfo);
     }
 
-    const trackData = {
+    const isrc = this.options.includeISRC && trackInfo.isrc ? this.prepareIsrc(trackInfo.isrc) : undefined;
+
+    return {
       identifier: trackInfo.identifier,
       isSeekable: trackInfo.isSeekable,
       author: trackInfo.author,
@@ -35,31 +171,111 @@ export class TrackEncoder {
       uri: trackInfo.uri,
       sourceName: trackInfo.sourceName || this.options.sourceName,
       ...(this.options.includeArtwork && trackInfo.artworkUrl && { artworkUrl: trackInfo.artworkUrl }),
-      ...(this.options.includeISRC && trackInfo.isrc && { isrc: trackInfo.isrc }),
-    };
-
-    const encodedTrack = this.encodeTrackData(trackData);
-    
-    return {
-      track: encodedTrack,
-      info: trackInfo,
+      ...(isrc && { isrc }),
+      ...(trackInfo.sourceData && { sourceData: trackInfo.sourceData }),
     };
   }
 
   /**
-   * Decodes a Lavalink track string back to track info
+   * Decodes a Lavalink track string back to track info. With the `safeDecoding` option
+   * a track over a limit or with a mistyped field raises a `TrackDecodeError`.
    */
   public decodeTrack(encodedTrack: string): TrackInfo {
+    const limits = resolveSafeDecodingLimits(this.options.safeDecoding);
     try {
-      const decoded = this.decodeTrackData(encodedTrack);
-      return decoded as TrackInfo;
+      if (!limits) {
+        return this.decodeTrackData(encodedTrack);
+      }
+      checkTrackInputSize(encodedTrack, limits);
+      return sanitizeTrackInfo(this.decodeTrackData(encodedTrack), limits);
     } catch (error) {
+      if (error instanceof TrackDecodeError) {
+        throw error;
+      }
       throw new Error(`Failed to decode track: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Creates a track from basic information
+   * Appends an HMAC signature to an encoded track, for tracks handed to users in
+   * button custom IDs or links. Requires the `signing` option.
+   */
+  public signTrack(encodedTrack: string): string {
+    return this.getSigner().sign(encodedTrack, 'track');
+  }
+
+  /**
+   * Verifies a track signed by `signTrack` in constant time and returns the encoded
+   * track without its signature
+   */
+  public verifyTrack(signedTrack: string): string {
+    try {
+      return this.getSigner().verify(signedTrack, 'track');
+    } catch (error) {
+      throw new Error(`Failed to verify track: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Verifies and decodes a track signed by `signTrack`
+   */
+  public decodeSignedTrack(signedTrack: string): TrackInfo {
+    return this.decodeTrack(this.verifyTrack(signedTrack));
+  }
+
+  /**
+   * Detects whether an encoded track is a Lavaplayer message or a legacy JSON track
+   */
+  public detectFormat(encodedTrack: string): TrackFormat {
+    try {
+      return detectTrackFormat(fromBase64(encodedTrack));
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  /**
+   * Re-encodes legacy JSON tracks in the Lavaplayer format
+   */
+  public migrateLegacyTracks(encodedTracks: string[]): TrackMigrationReport {
+    const report: TrackMigrationReport = {
+      tracks: [],
+      migrated: [],
+      unchanged: [],
+      failed: [],
+    };
+
+    encodedTracks.forEach((encodedTrack, index) => {
+      const format = this.detectFormat(encodedTrack);
+
+      if (format === 'lavaplayer') {
+        report.tracks.push(encodedTrack);
+        report.unchanged.push(index);
+        return;
+      }
+
+      try {
+        if (format !== 'legacy-json') {
+          throw new Error('Track is neither a Lavaplayer message nor a legacy JSON track');
+        }
+        const trackInfo = decodeLegacyTrackBytes(fromBase64(encodedTrack));
+        report.tracks.push(this.encodeTrack(trackInfo).track);
+        report.migrated.push(index);
+      } catch (error) {
+        report.tracks.push(encodedTrack);
+        report.failed.push({
+          index,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    return report;
+  }
+
+  /**
+   * Creates a track from basic information. The source is the configured `sourceName`,
+   * or detected from the URI when no source name was configured.
    */
   public createTrack(
     identifier: string,
@@ -78,7 +294,9 @@ export class TrackEncoder {
       isSeekable: length > 0,
       isStream: length === 0,
       position: 0,
-      sourceName: this.options.sourceName,
+      sourceName: this.sourceNameConfigured
+        ? this.options.sourceName
+        : this.options.sources.detect(uri) ?? this.options.sourceName,
       ...additionalInfo,
     };
 
@@ -86,7 +304,23 @@ export class TrackEncoder {
   }
 
   /**
-   * Creates a track from YouTube data
+   * Creates a track for a registered source; the duration is in the source's duration unit
+   */
+  public createSourceTrack(
+    sourceName: string,
+    identifier: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    const data: SourceTrackData = { identifier, title, author, duration };
+    const trackInfo = this.options.sources.buildTrackInfo(sourceName, data, additionalInfo, this.options.validate);
+    return this.encodeTrack(trackInfo);
+  }
+
+  /**
+   * Creates a track from YouTube data (duration in seconds)
    */
   public createYouTubeTrack(
     videoId: string,
@@ -95,21 +329,11 @@ export class TrackEncoder {
     duration: number,
     additionalInfo: Partial<TrackInfo> = {}
   ): LavalinkTrack {
-    return this.createTrack(
-      videoId,
-      title,
-      author,
-      duration * 1000, // Convert seconds to milliseconds
-      `https://www.youtube.com/watch?v=${videoId}`,
-      {
-        sourceName: 'youtube',
-        ...additionalInfo,
-      }
-    );
+    return this.createSourceTrack('youtube', videoId, title, author, duration, additionalInfo);
   }
 
   /**
-   * Creates a track from Spotify data
+   * Creates a track from Spotify data (duration in milliseconds)
    */
   public createSpotifyTrack(
     trackId: string,
@@ -118,21 +342,11 @@ export class TrackEncoder {
     duration: number,
     additionalInfo: Partial<TrackInfo> = {}
   ): LavalinkTrack {
-    return this.createTrack(
-      trackId,
-      title,
-      author,
-      duration,
-      `https://open.spotify.com/track/${trackId}`,
-      {
-        sourceName: 'spotify',
-        ...additionalInfo,
-      }
-    );
+    return this.createSourceTrack('spotify', trackId, title, author, duration, additionalInfo);
   }
 
   /**
-   * Creates a track from SoundCloud data
+   * Creates a track from SoundCloud data (duration in milliseconds)
    */
   public createSoundCloudTrack(
     trackId: string,
@@ -141,17 +355,128 @@ export class TrackEncoder {
     duration: number,
     additionalInfo: Partial<TrackInfo> = {}
   ): LavalinkTrack {
-    return this.createTrack(
-      trackId,
-      title,
-      author,
-      duration,
-      `https://soundcloud.com/${author}/${title}`,
-      {
-        sourceName: 'soundcloud',
-        ...additionalInfo,
-      }
-    );
+    return this.createSourceTrack('soundcloud', trackId, title, author, duration, additionalInfo);
+  }
+
+  /**
+   * Creates a track from Apple Music data (duration in milliseconds)
+   */
+  public createAppleMusicTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.createSourceTrack('applemusic', trackId, title, author, duration, additionalInfo);
+  }
+
+  /**
+   * Creates a track from Deezer data (duration in seconds)
+   */
+  public createDeezerTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.createSourceTrack('deezer', trackId, title, author, duration, additionalInfo);
+  }
+
+  /**
+   * Creates a track from Bandcamp data; the track ID is the URL slug or full track URL (duration in seconds)
+   */
+  public createBandcampTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.createSourceTrack('bandcamp', trackId, title, author, duration, additionalInfo);
+  }
+
+  /**
+   * Creates a live stream track from a Twitch channel name or URL
+   */
+  public createTwitchTrack(
+    channel: string,
+    title: string,
+    author: string,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.createSourceTrack('twitch', channel, title, author, 0, additionalInfo);
+  }
+
+  /**
+   * Creates a track from Vimeo data (duration in seconds)
+   */
+  public createVimeoTrack(
+    videoId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.createSourceTrack('vimeo', videoId, title, author, duration, additionalInfo);
+  }
+
+  /**
+   * Creates a track from Yandex Music data (duration in milliseconds)
+   */
+  public createYandexMusicTrack(
+    trackId: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.createSourceTrack('yandexmusic', trackId, title, author, duration, additionalInfo);
+  }
+
+  /**
+   * Creates a track from a direct media URL played by the HTTP source (duration in milliseconds)
+   */
+  public createHttpTrack(
+    url: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.createSourceTrack('http', url, title, author, duration, additionalInfo);
+  }
+
+  /**
+   * Creates a track from a file path played by the local source (duration in milliseconds)
+   */
+  public createLocalTrack(
+    path: string,
+    title: string,
+    author: string,
+    duration: number,
+    additionalInfo: Partial<TrackInfo> = {}
+  ): LavalinkTrack {
+    return this.createSourceTrack('local', path, title, author, duration, additionalInfo);
+  }
+
+  /**
+   * Repairs an ISRC when validating, dropping or rejecting malformed ones per the ISRC policy
+   */
+  private prepareIsrc(isrc: string): string | undefined {
+    if (!this.options.validate) {
+      return isrc;
+    }
+
+    const normalized = normalizeIsrc(isrc);
+    if (normalized) {
+      return normalized;
+    }
+    if (this.options.isrcPolicy === 'reject') {
+      throw new Error(`Invalid ISRC: ${isrc}`);
+    }
+    return undefined;
   }
 
   /**
@@ -176,21 +501,27 @@ export class TrackEncoder {
   }
 
   /**
-   * Encodes track data to base64 string
+   * Encodes track data to a base64 Lavaplayer track message
    */
-  private encodeTrackData(data: any): string {
-    const jsonString = JSON.stringify(data);
-    const bytes = new TextEncoder().encode(jsonString);
+  private encodeTrackData(data: TrackInfo): string {
+    const bytes = encodeTrackBytes(data, this.options.trackVersion, this.options.sourceFields);
     return base64.fromByteArray(bytes);
   }
 
   /**
-   * Decodes base64 string to track data
+   * Decodes a base64 Lavaplayer track message, or a legacy JSON track, to track data
    */
-  private decodeTrackData(encoded: string): any {
-    const bytes = base64.toByteArray(encoded);
-    const jsonString = new TextDecoder().decode(bytes);
-    return JSON.parse(jsonString);
+  private decodeTrackData(encoded: string): TrackInfo {
+    const bytes = fromBase64(encoded);
+
+    switch (detectTrackFormat(bytes)) {
+      case 'lavaplayer':
+        return decodeTrackBytes(bytes, this.options.sourceFields).info;
+      case 'legacy-json':
+        return decodeLegacyTrackBytes(bytes);
+      default:
+        throw new Error('Unrecognized track format');
+    }
   }
 
   /**
@@ -198,6 +529,45 @@ export class TrackEncoder {
    */
   public updateOptions(options: Partial<EncoderOptions>): void {
     this.options = { ...this.options, ...options };
+    this.sourceNameConfigured = this.sourceNameConfigured || options.sourceName !== undefined;
+    this.batchCodec = undefined;
+    this.signer = undefined;
+  }
+
+  /**
+   * Applies the safe decoding checks to each decoded track of a batch
+   */
+  private sanitizeBatch(results: BatchDecodeResult[], limits: Required<SafeDecodingOptions>): BatchDecodeResult[] {
+    return results.map((result, index) => {
+      if (!result.success) {
+        return result;
+      }
+      try {
+        return { success: true, track: sanitizeTrackInfo(result.track, limits) };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error', index };
+      }
+    });
+  }
+
+  private getSigner(): HmacSigner {
+    if (!this.options.signing) {
+      throw new Error('Track signing is not configured; set the signing option');
+    }
+    if (!this.signer) {
+      this.signer = new HmacSigner(this.options.signing);
+    }
+    return this.signer;
+  }
+
+  private getBatchCodec(): BatchTrackCodec {
+    if (!this.batchCodec) {
+      this.batchCodec = new BatchTrackCodec({
+        trackVersion: this.options.trackVersion,
+        sourceFields: this.options.sourceFields,
+      });
+    }
+    return this.batchCodec;
   }
 
   /**
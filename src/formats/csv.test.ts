@@ -0,0 +1,91 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { parseCSV, writeCSV } from './csv';
+
+describe('CSV', () => {
+  it('writes the default columns with RFC 4180 quoting', () => {
+    expect(writeCSV([trackInfo({ title: 'One, "Two"\nThree', isrc: 'GBARL9300135' })])).toBe(
+      'Title,Author,Duration,URL,Source,ISRC\r\n' +
+        '"One, ""Two""\nThree",Rick Astley,212000,https://www.youtube.com/watch?v=dQw4w9WgXcQ,youtube,GBARL9300135\r\n'
+    );
+  });
+
+  it('round-trips tracks and streams with custom columns and delimiter', () => {
+    const stream = trackInfo({
+      identifier: 'https://radio.example.com/live',
+      title: 'Live; Radio',
+      author: 'Radio',
+      length: 0,
+      isStream: true,
+      isSeekable: false,
+      uri: 'https://radio.example.com/live',
+      sourceName: 'http',
+    });
+    const options = {
+      columns: [{ field: 'title' as const, header: 'Song' }, 'author' as const, 'length' as const, 'uri' as const, 'sourceName' as const],
+      delimiter: ';',
+      durationFormat: 'formatted' as const,
+    };
+    const content = writeCSV([trackInfo({ length: 225000 }), stream], options);
+
+    expect(content.split('\r\n')[2]).toBe('"Live; Radio";Radio;LIVE;https://radio.example.com/live;http');
+    expect(parseCSV(content, options).tracks).toEqual([trackInfo({ length: 225000 }), stream]);
+  });
+
+  it('matches header cells in any order', () => {
+    const result = parseCSV('url,AUTHOR,Duration\nhttps://soundcloud.com/artist/song,Someone,1:02:03\n');
+
+    expect(result.tracks.map(({ author, length, sourceName }) => ({ author, length, sourceName }))).toEqual([
+      { author: 'Someone', length: 3723000, sourceName: 'soundcloud' },
+    ]);
+  });
+
+  it('prefixes formula-like text cells and removes the prefix on import', () => {
+    const tracks = [
+      trackInfo({ title: '=HYPERLINK("https://evil.example.com","click")' }),
+      trackInfo({ title: '+1', author: '-Artist-' }),
+      trackInfo({ title: '@SUM(A1)', author: '\tTabbed' }),
+      trackInfo({ title: "'Quoted'", isStream: true, isSeekable: false, length: 0 }),
+    ];
+    const content = writeCSV(tracks, { columns: ['title', 'author', 'length', 'uri'] });
+    const uri = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+    expect(content.split('\r\n').slice(1, 5)).toEqual([
+      `"'=HYPERLINK(""https://evil.example.com"",""click"")",Rick Astley,212000,${uri}`,
+      `'+1,'-Artist-,212000,${uri}`,
+      `'@SUM(A1),'\tTabbed,212000,${uri}`,
+      `'Quoted',Rick Astley,-1,${uri}`,
+    ]);
+    expect(parseCSV(content).tracks.map(({ title, author, isStream }) => ({ title, author, isStream }))).toEqual([
+      { title: '=HYPERLINK("https://evil.example.com","click")', author: 'Rick Astley', isStream: false },
+      { title: '+1', author: '-Artist-', isStream: false },
+      { title: '@SUM(A1)', author: '\tTabbed', isStream: false },
+      { title: "'Quoted'", author: 'Rick Astley', isStream: true },
+    ]);
+  });
+
+  it('writes and reads formula-like cells unchanged with escapeFormulas off', () => {
+    const content = writeCSV([trackInfo({ title: '=1+1' })], { columns: ['title', 'uri'], escapeFormulas: false });
+
+    expect(content).toBe('title,uri\r\n=1+1,https://www.youtube.com/watch?v=dQw4w9WgXcQ\r\n');
+    expect(parseCSV(content.replace('=1+1', "'=1+1"), { columns: ['title', 'uri'], escapeFormulas: false }).tracks[0].title).toBe("'=1+1");
+  });
+
+  it('keeps spaces inside quoted cells and trims unquoted cells', () => {
+    const content = writeCSV([trackInfo({ title: '  padded  ', author: ' Rick Astley' })], { columns: ['title', 'author', 'uri'] });
+
+    expect(content.split('\r\n')[1]).toBe('"  padded  "," Rick Astley",https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+    expect(parseCSV(content, { columns: ['title', 'author', 'uri'] }).tracks[0]).toMatchObject({
+      title: '  padded  ',
+      author: ' Rick Astley',
+    });
+    expect(parseCSV('title, author ,uri\n  Song , "  Artist " ,https://example.com/song.mp3\n').tracks[0]).toMatchObject({
+      title: 'Song',
+      author: '  Artist ',
+    });
+  });
+
+  it('rejects unterminated quotes and unknown column fields', () => {
+    expect(() => parseCSV('Title\n"open')).toThrow('Invalid CSV: unterminated quoted cell');
+    expect(() => writeCSV([], { columns: [{ field: 'nope' as never, header: 'Nope' }] })).toThrow('Unsupported CSV column field: nope');
+  });
+});
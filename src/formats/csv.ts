@@ -0,0 +1,238 @@
+import {
+  TrackInfo,
+  PlaylistFileEntry,
+  PlaylistImportOptions,
+  PlaylistImportResult,
+  CsvColumn,
+  CsvField,
+  CsvOptions,
+} from '../types';
+import { formatDuration } from '../utils';
+import { mapPlaylistEntries } from './entries';
+
+/**
+ * Columns written when none are configured
+ */
+export const DEFAULT_CSV_COLUMNS: ReadonlyArray<CsvColumn> = [
+  { field: 'title', header: 'Title' },
+  { field: 'author', header: 'Author' },
+  { field: 'length', header: 'Duration' },
+  { field: 'uri', header: 'URL' },
+  { field: 'sourceName', header: 'Source' },
+  { field: 'isrc', header: 'ISRC' },
+];
+
+const CSV_FIELDS: CsvField[] = ['identifier', 'title', 'author', 'length', 'uri', 'sourceName', 'isrc', 'artworkUrl', 'isStream'];
+
+/**
+ * Written in place of a stream's duration
+ */
+const STREAM_DURATION = { ms: '-1', formatted: 'LIVE' };
+
+/**
+ * First characters that make a spreadsheet read a cell as a formula
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Writes tracks as CSV (RFC 4180): a header row, then one row per track. Cells holding
+ * the delimiter, quotes, line breaks or surrounding spaces are quoted, and text cells
+ * that a spreadsheet would run as a formula are prefixed with `'` unless
+ * `escapeFormulas` is false.
+ */
+export function writeCSV(tracks: TrackInfo[], options: CsvOptions = {}): string {
+  const columns = resolveColumns(options.columns);
+  const delimiter = options.delimiter ?? ',';
+  const durationFormat = options.durationFormat ?? 'ms';
+  const escapeFormulas = options.escapeFormulas ?? true;
+
+  const rows: string[][] = [];
+  if (options.header ?? true) {
+    rows.push(columns.map(column => column.header));
+  }
+  for (const track of tracks) {
+    rows.push(columns.map(column => {
+      const cell = formatCell(track, column.field, durationFormat);
+      return escapeFormulas && column.field !== 'length' && FORMULA_START.test(cell) ? `'${cell}` : cell;
+    }));
+  }
+
+  return rows.map(row => row.map(cell => quoteCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Reads tracks from CSV. With a header row, columns are matched by their configured
+ * header or field name in any order; without one, by the configured column order.
+ * Durations may be milliseconds or `formatDuration` style ("3:45", "1:02:03"). Unless
+ * `escapeFormulas` is false, the `'` written before formula-like text is removed.
+ */
+export function parseCSV(content: string, options: CsvOptions & PlaylistImportOptions = {}): PlaylistImportResult {
+  const rows = parseRows(content.replace(/^\uFEFF/, ''), options.delimiter ?? ',');
+  let columns: Array<CsvField | null> = resolveColumns(options.columns).map(column => column.field);
+
+  if ((options.header ?? true) && rows.length > 0) {
+    const configured = resolveColumns(options.columns);
+    columns = rows.shift()!.map(header => {
+      const key = header.trim().toLowerCase();
+      return configured.find(column => column.header.toLowerCase() === key)?.field ??
+        DEFAULT_CSV_COLUMNS.find(column => column.header.toLowerCase() === key)?.field ??
+        CSV_FIELDS.find(field => field.toLowerCase() === key) ??
+        null;
+    });
+  }
+
+  const entries = rows
+    .filter(row => row.some(cell => cell.trim().length > 0))
+    .map(row => toEntry(row, columns, options.escapeFormulas ?? true));
+  return mapPlaylistEntries(undefined, entries, options);
+}
+
+function resolveColumns(columns: CsvOptions['columns']): CsvColumn[] {
+  if (!columns || columns.length === 0) {
+    return [...DEFAULT_CSV_COLUMNS];
+  }
+
+  return columns.map(column => {
+    const resolved = typeof column === 'string' ? { field: column, header: column } : column;
+    if (!CSV_FIELDS.includes(resolved.field)) {
+      throw new Error(`Unsupported CSV column field: ${resolved.field}`);
+    }
+    return resolved;
+  });
+}
+
+function formatCell(track: TrackInfo, field: CsvField, durationFormat: 'ms' | 'formatted'): string {
+  if (field === 'length') {
+    if (track.isStream) {
+      return STREAM_DURATION[durationFormat];
+    }
+    return durationFormat === 'formatted' ? formatDuration(track.length) : String(track.length);
+  }
+
+  const value = track[field];
+  return value === undefined ? '' : String(value);
+}
+
+function toEntry(row: string[], columns: Array<CsvField | null>, escapeFormulas: boolean): PlaylistFileEntry {
+  const entry: PlaylistFileEntry = {};
+
+  columns.forEach((field, index) => {
+    let value = row[index];
+    if (!field || !value) {
+      return;
+    }
+    if (escapeFormulas && value.startsWith("'") && FORMULA_START.test(value.substring(1))) {
+      value = value.substring(1);
+    }
+
+    switch (field) {
+      case 'uri':
+        entry.location = value;
+        break;
+      case 'title':
+        entry.title = value;
+        break;
+      case 'author':
+        entry.author = value;
+        break;
+      case 'length': {
+        const duration = parseDuration(value);
+        if (duration !== null) {
+          entry.duration = duration;
+        }
+        break;
+      }
+      case 'isStream':
+        if (value.toLowerCase() === 'true') {
+          entry.duration = -1;
+        }
+        break;
+      case 'artworkUrl':
+        entry.artworkUrl = value;
+        break;
+      default:
+        entry[field] = value;
+    }
+  });
+
+  return entry;
+}
+
+/**
+ * Reads milliseconds, `[h:]m:ss` or a stream marker (-1 or "LIVE") as milliseconds
+ */
+function parseDuration(value: string): number | null {
+  if (value === STREAM_DURATION.ms || value.toUpperCase() === STREAM_DURATION.formatted) {
+    return -1;
+  }
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  if (/^\d+(?::\d{1,2}){1,2}$/.test(value)) {
+    return value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0) * 1000;
+  }
+  return null;
+}
+
+function quoteCell(cell: string, delimiter: string): string {
+  const needsQuotes = cell.includes(delimiter) || /["\r\n]/.test(cell) || cell !== cell.trim();
+  return needsQuotes ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Splits CSV into rows of cells, honouring quoted cells with delimiters, doubled
+ * quotes and line breaks. Unquoted cells are trimmed; quoted cells keep their spaces.
+ */
+function parseRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let wasQuoted = false;
+
+  const endCell = () => {
+    row.push(wasQuoted ? cell : cell.trim());
+    cell = '';
+    wasQuoted = false;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const character = content[i];
+
+    if (quoted) {
+      if (character === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (character === '"') {
+        quoted = false;
+      } else {
+        cell += character;
+      }
+    } else if (character === '"' && !wasQuoted && cell.trim().length === 0) {
+      cell = '';
+      quoted = true;
+      wasQuoted = true;
+    } else if (content.startsWith(delimiter, i)) {
+      endCell();
+      i += delimiter.length - 1;
+    } else if (character === '\r' || character === '\n') {
+      if (character === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      endCell();
+      rows.push(row);
+      row = [];
+    } else if (!(wasQuoted && (character === ' ' || character === '\t'))) {
+      cell += character;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Invalid CSV: unterminated quoted cell');
+  }
+  if (cell.length > 0 || wasQuoted || row.length > 0) {
+    endCell();
+    rows.push(row);
+  }
+  return rows;
+}
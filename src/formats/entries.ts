@@ -0,0 +1,110 @@
+import { TrackInfo, PlaylistFileEntry, PlaylistImportOptions, PlaylistImportResult } from '../types';
+import { defaultSourceRegistry } from '../sources';
+import { detectTrackSource } from '../utils';
+import { parseMusicUrl } from '../utils/url';
+
+/**
+ * Author given to imported entries that name no artist
+ */
+const UNKNOWN_AUTHOR = 'Unknown Artist';
+
+/**
+ * `rel` of the XSPF/JSPF meta entry that marks a track as a stream, since neither
+ * format has a field for it and a missing duration also means "unknown"
+ */
+export const STREAM_META_REL = 'https://www.npmjs.com/package/ryxu-xo-lavalink-encoder#isStream';
+
+/**
+ * Maps the entries read from a playlist file to track info, assigning each entry's
+ * source with `detectTrackSource` and reporting the entries that cannot be played
+ */
+export function mapPlaylistEntries(
+  name: string | undefined,
+  entries: PlaylistFileEntry[],
+  options: PlaylistImportOptions = {}
+): PlaylistImportResult {
+  const registry = options.sources ?? defaultSourceRegistry;
+  const result: PlaylistImportResult = { ...(name && { name }), tracks: [], unmapped: [] };
+
+  entries.forEach((entry, index) => {
+    const location = entry.location?.trim();
+    if (!location) {
+      result.unmapped.push({ index, entry, reason: 'Entry has no location' });
+      return;
+    }
+
+    const detected = entry.sourceName || detectTrackSource(location, registry);
+    const sourceName = detected !== 'unknown' ? detected : options.fallbackSource;
+    if (!sourceName) {
+      result.unmapped.push({ index, entry, reason: `No source recognizes ${location}` });
+      return;
+    }
+
+    const parsed = parseMusicUrl(location);
+    if (parsed && parsed.kind !== 'track') {
+      result.unmapped.push({ index, entry, reason: `Entry points at a ${parsed.kind}, not a track` });
+      return;
+    }
+
+    const isStream = entry.duration !== undefined && entry.duration < 0;
+    result.tracks.push({
+      identifier: entry.identifier || (parsed?.id ?? location),
+      isSeekable: !isStream,
+      author: entry.author?.trim() ? entry.author : UNKNOWN_AUTHOR,
+      length: entry.duration !== undefined && entry.duration > 0 ? entry.duration : 0,
+      isStream,
+      position: 0,
+      title: entry.title?.trim() ? entry.title : titleFromLocation(location),
+      uri: location,
+      sourceName,
+      ...(entry.artworkUrl && { artworkUrl: entry.artworkUrl }),
+      ...(entry.isrc && { isrc: entry.isrc }),
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Splits an "Author - Title" display name, as written by players into M3U and PLS files
+ */
+export function splitDisplayTitle(display: string): { author?: string; title: string } {
+  const separator = display.indexOf(' - ');
+  if (separator <= 0) {
+    return { title: display.trim() };
+  }
+  return { author: display.substring(0, separator).trim(), title: display.substring(separator + 3).trim() };
+}
+
+/**
+ * Joins a track's author and title into the "Author - Title" display name
+ */
+export function formatDisplayTitle(track: TrackInfo): string {
+  const title = singleLine(track.title);
+  const author = singleLine(track.author);
+  return author && author !== UNKNOWN_AUTHOR ? `${author} - ${title}` : title;
+}
+
+/**
+ * Duration in whole seconds for M3U and PLS files, which write streams as -1
+ */
+export function toFileSeconds(track: TrackInfo): number {
+  return track.isStream ? -1 : Math.round(track.length / 1000);
+}
+
+/**
+ * Collapses line breaks, which would end the entry in line-based formats
+ */
+export function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+function titleFromLocation(location: string): string {
+  const path = location.replace(/[?#].*$/, '').replace(/[\\/]+$/, '');
+  const fileName = path.substring(Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+  try {
+    return decodeURIComponent(fileName).replace(/\.[A-Za-z0-9]{1,5}$/, '') || location;
+  } catch {
+    return fileName || location;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Playlist file formats for importing playlists from other players and exporting queues
+ */
+
+import { CsvOptions, PlaylistFileFormat, PlaylistImportOptions, PlaylistImportResult, TrackInfo } from '../types';
+import { writeM3U, parseM3U } from './m3u';
+import { writePLS, parsePLS } from './pls';
+import { writeXSPF, parseXSPF } from './xspf';
+import { writeJSPF, parseJSPF } from './jspf';
+import { writeCSV, parseCSV } from './csv';
+
+export { writeM3U, parseM3U, writePLS, parsePLS, writeXSPF, parseXSPF, writeJSPF, parseJSPF, writeCSV, parseCSV };
+export { DEFAULT_CSV_COLUMNS } from './csv';
+export { SHARE_CODE_VERSION, encodeShareCode, decodeShareCode } from './shareCode';
+export { mapPlaylistEntries } from './entries';
+
+/**
+ * Detects the format of a playlist file from its content, or returns null when it is not recognized
+ */
+export function detectPlaylistFormat(content: string): PlaylistFileFormat | null {
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (/^#EXTM3U/i.test(start)) {
+    return 'm3u';
+  }
+  if (/^\[playlist\]/i.test(start)) {
+    return 'pls';
+  }
+  if (/^(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*<playlist[\s>]/.test(start)) {
+    return 'xspf';
+  }
+  if (/^\{\s*"playlist"\s*:/.test(start)) {
+    return 'jspf';
+  }
+  return null;
+}
+
+/**
+ * Reads a playlist file in the given format, or in the format detected from its content.
+ * Files that are not recognized are read as plain M3U, one location per line.
+ */
+export function parsePlaylistFile(
+  content: string,
+  format: PlaylistFileFormat | null = detectPlaylistFormat(content),
+  options: PlaylistImportOptions & { csv?: CsvOptions } = {}
+): PlaylistImportResult {
+  switch (format) {
+    case 'pls':
+      return parsePLS(content, options);
+    case 'xspf':
+      return parseXSPF(content, options);
+    case 'jspf':
+      return parseJSPF(content, options);
+    case 'csv':
+      return parseCSV(content, { ...options.csv, sources: options.sources, fallbackSource: options.fallbackSource });
+    default:
+      return parseM3U(content, options);
+  }
+}
+
+/**
+ * Writes tracks as a playlist file in a format
+ */
+export function writePlaylistFile(
+  format: PlaylistFileFormat,
+  tracks: TrackInfo[],
+  name?: string,
+  csv?: CsvOptions
+): string {
+  switch (format) {
+    case 'm3u':
+      return writeM3U(tracks, name);
+    case 'pls':
+      return writePLS(tracks, name);
+    case 'xspf':
+      return writeXSPF(tracks, name);
+    case 'jspf':
+      return writeJSPF(tracks, name);
+    case 'csv':
+      // CSV has no place for the playlist name
+      return writeCSV(tracks, csv);
+    default:
+      throw new Error(`Unknown playlist format: ${format}`);
+  }
+}
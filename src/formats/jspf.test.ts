@@ -0,0 +1,68 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { detectPlaylistFormat } from '.';
+import { STREAM_META_REL } from './entries';
+import { parseJSPF, writeJSPF } from './jspf';
+
+const stream = trackInfo({
+  identifier: 'https://radio.example.com/live',
+  title: 'Live',
+  author: 'Radio',
+  length: 0,
+  isStream: true,
+  isSeekable: false,
+  uri: 'https://radio.example.com/live',
+  sourceName: 'http',
+});
+
+describe('JSPF', () => {
+  it('round-trips tracks and artwork', () => {
+    const tracks = [trackInfo({ artworkUrl: 'https://img.example.com/a.jpg' })];
+    const content = writeJSPF(tracks, 'Mix');
+
+    expect(detectPlaylistFormat(content)).toBe('jspf');
+    expect(parseJSPF(content)).toEqual({ name: 'Mix', tracks, unmapped: [] });
+  });
+
+  it('marks streams with a meta entry and reads them back as streams', () => {
+    const content = writeJSPF([trackInfo(), stream]);
+    const written = JSON.parse(content).playlist.track;
+
+    expect(written[0].meta).toBeUndefined();
+    expect(written[1]).not.toHaveProperty('duration');
+    expect(written[1].meta).toEqual([{ [STREAM_META_REL]: 'true' }]);
+    expect(parseJSPF(content, { fallbackSource: 'http' }).tracks).toEqual([trackInfo(), stream]);
+  });
+
+  it('ignores fields of the wrong type and other meta entries', () => {
+    const content = JSON.stringify({
+      playlist: {
+        title: 42,
+        track: [
+          null,
+          {
+            location: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+            title: ['not', 'a', 'string'],
+            creator: 'Rick Astley',
+            duration: 'long',
+            meta: [{ 'https://example.com/other': 'true' }, 'junk'],
+          },
+        ],
+      },
+    });
+    const result = parseJSPF(content);
+
+    expect(result.name).toBeUndefined();
+    expect(result.unmapped.map(({ index, reason }) => ({ index, reason }))).toEqual([
+      { index: 0, reason: 'Entry has no location' },
+    ]);
+    expect(result.tracks.map(({ title, author, length, isStream }) => ({ title, author, length, isStream }))).toEqual([
+      { title: 'watch', author: 'Rick Astley', length: 0, isStream: false },
+    ]);
+  });
+
+  it('rejects invalid JSON and documents without a playlist object', () => {
+    expect(() => parseJSPF('{')).toThrow('Invalid JSPF playlist: not valid JSON');
+    expect(() => parseJSPF('null')).toThrow('Invalid JSPF playlist: missing playlist object');
+    expect(() => parseJSPF('{"playlist":{"track":{}}}')).toThrow('Invalid JSPF playlist: missing playlist object');
+  });
+});
@@ -0,0 +1,74 @@
+import { TrackInfo, PlaylistFileEntry, PlaylistImportOptions, PlaylistImportResult } from '../types';
+import { STREAM_META_REL, mapPlaylistEntries } from './entries';
+
+/**
+ * Writes tracks as a JSPF (JSON XSPF) playlist. Durations are in milliseconds and
+ * omitted for streams, which are marked with a `meta` entry instead.
+ */
+export function writeJSPF(tracks: TrackInfo[], name?: string): string {
+  const playlist = {
+    ...(name && { title: name }),
+    track: tracks.map(track => ({
+      location: [track.uri],
+      title: track.title,
+      creator: track.author,
+      ...(!track.isStream && track.length > 0 && { duration: Math.round(track.length) }),
+      ...(track.artworkUrl && { image: track.artworkUrl }),
+      ...(track.isStream && { meta: [{ [STREAM_META_REL]: 'true' }] }),
+    })),
+  };
+
+  return `${JSON.stringify({ playlist }, null, 2)}\n`;
+}
+
+/**
+ * Reads a JSPF playlist. Only the first `location` of each track is used, and tracks
+ * with the stream `meta` entry written by `writeJSPF` are read as streams.
+ */
+export function parseJSPF(content: string, options: PlaylistImportOptions = {}): PlaylistImportResult {
+  let document: unknown;
+  try {
+    document = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('Invalid JSPF playlist: not valid JSON');
+  }
+
+  const playlist = isObject(document) ? document.playlist : undefined;
+  if (!isObject(playlist) || (playlist.track !== undefined && !Array.isArray(playlist.track))) {
+    throw new Error('Invalid JSPF playlist: missing playlist object');
+  }
+
+  const tracks: unknown[] = playlist.track ?? [];
+  const entries = tracks.map(readTrack);
+  return mapPlaylistEntries(typeof playlist.title === 'string' ? playlist.title : undefined, entries, options);
+}
+
+function readTrack(track: unknown): PlaylistFileEntry {
+  if (!isObject(track)) {
+    return {};
+  }
+
+  const location = Array.isArray(track.location) ? track.location[0] : track.location;
+  const duration = track.duration;
+  return {
+    ...(typeof location === 'string' && { location }),
+    ...(typeof track.title === 'string' && { title: track.title }),
+    ...(typeof track.creator === 'string' && { author: track.creator }),
+    ...(isStreamTrack(track)
+      ? { duration: -1 }
+      : typeof duration === 'number' && Number.isFinite(duration) && duration >= 0 && { duration: Math.round(duration) }),
+    ...(typeof track.image === 'string' && { artworkUrl: track.image }),
+  };
+}
+
+/**
+ * JSPF `meta` is an array of single-key objects mapping a `rel` to its value
+ */
+function isStreamTrack(track: Record<string, unknown>): boolean {
+  return Array.isArray(track.meta) &&
+    track.meta.some(meta => isObject(meta) && (meta[STREAM_META_REL] === 'true' || meta[STREAM_META_REL] === true));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,50 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { parseM3U, writeM3U } from './m3u';
+
+describe('M3U', () => {
+  it('writes an #EXTINF line before each URI', () => {
+    expect(writeM3U([trackInfo()], 'Mix')).toBe(
+      '#EXTM3U\n#PLAYLIST:Mix\n#EXTINF:212,Rick Astley - Never Gonna Give You Up\nhttps://www.youtube.com/watch?v=dQw4w9WgXcQ\n'
+    );
+  });
+
+  it('round-trips tracks and streams', () => {
+    const stream = trackInfo({
+      identifier: 'https://radio.example.com/live',
+      title: 'Live',
+      author: 'Radio',
+      length: 0,
+      isStream: true,
+      isSeekable: false,
+      uri: 'https://radio.example.com/live',
+      sourceName: 'http',
+    });
+    const result = parseM3U(writeM3U([trackInfo(), stream], 'Mix'), { fallbackSource: 'http' });
+
+    expect(result.name).toBe('Mix');
+    expect(result.unmapped).toEqual([]);
+    expect(result.tracks).toEqual([trackInfo(), stream]);
+  });
+
+  it('reads plain lists, CRLF line endings, artwork and fractional durations', () => {
+    const result = parseM3U(
+      '﻿# comment\r\n#EXTINF:12.6 tvg-logo="https://img.example.com/a.jpg",Only Title\r\n' +
+        'https://www.youtube.com/watch?v=dQw4w9WgXcQ\r\n\r\nhttps://soundcloud.com/artist/song\r\n'
+    );
+
+    expect(result.tracks.map(({ title, author, length, artworkUrl, sourceName }) => ({ title, author, length, artworkUrl, sourceName }))).toEqual([
+      { title: 'Only Title', author: 'Unknown Artist', length: 12600, artworkUrl: 'https://img.example.com/a.jpg', sourceName: 'youtube' },
+      { title: 'song', author: 'Unknown Artist', length: 0, artworkUrl: undefined, sourceName: 'soundcloud' },
+    ]);
+  });
+
+  it('reports entries that cannot be played', () => {
+    const result = parseM3U('https://unknown.example.com/page\nhttps://www.youtube.com/playlist?list=PL123\n');
+
+    expect(result.tracks).toEqual([]);
+    expect(result.unmapped.map(({ index, reason }) => ({ index, reason }))).toEqual([
+      { index: 0, reason: 'No source recognizes https://unknown.example.com/page' },
+      { index: 1, reason: 'Entry points at a playlist, not a track' },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { TrackInfo, PlaylistFileEntry, PlaylistImportOptions, PlaylistImportResult } from '../types';
+import { formatDisplayTitle, mapPlaylistEntries, singleLine, splitDisplayTitle, toFileSeconds } from './entries';
+
+/**
+ * Writes tracks as an extended M3U playlist, with an `#EXTINF` line of duration and
+ * "Author - Title" before each URI
+ */
+export function writeM3U(tracks: TrackInfo[], name?: string): string {
+  const lines = ['#EXTM3U'];
+  if (name) {
+    lines.push(`#PLAYLIST:${singleLine(name)}`);
+  }
+
+  for (const track of tracks) {
+    lines.push(`#EXTINF:${toFileSeconds(track)},${formatDisplayTitle(track)}`);
+    lines.push(singleLine(track.uri));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Reads a plain or extended M3U/M3U8 playlist
+ */
+export function parseM3U(content: string, options: PlaylistImportOptions = {}): PlaylistImportResult {
+  const entries: PlaylistFileEntry[] = [];
+  let name: string | undefined;
+  let pending: PlaylistFileEntry = {};
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n|\r/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    if (line.startsWith('#')) {
+      if (/^#EXTINF:/i.test(line)) {
+        pending = parseExtInf(line.substring('#EXTINF:'.length));
+      } else if (/^#PLAYLIST:/i.test(line)) {
+        name = line.substring('#PLAYLIST:'.length).trim() || undefined;
+      } else if (/^#EXTIMG:/i.test(line)) {
+        pending.artworkUrl = line.substring('#EXTIMG:'.length).trim();
+      }
+      continue;
+    }
+
+    entries.push({ ...pending, location: line });
+    pending = {};
+  }
+
+  return mapPlaylistEntries(name, entries, options);
+}
+
+/**
+ * Reads `<seconds> [attributes],<display title>` from an `#EXTINF` line
+ */
+function parseExtInf(value: string): PlaylistFileEntry {
+  const match = value.match(/^\s*(-?\d+(?:\.\d+)?)((?:\s+[\w-]+="[^"]*")*)\s*,(.*)$/);
+  if (!match) {
+    return splitDisplayTitle(value);
+  }
+
+  const seconds = parseFloat(match[1]);
+  const artwork = match[2].match(/\btvg-logo="([^"]*)"/);
+  return {
+    ...splitDisplayTitle(match[3]),
+    duration: seconds < 0 ? -1 : Math.round(seconds * 1000),
+    ...(artwork && artwork[1] && { artworkUrl: artwork[1] }),
+  };
+}
@@ -0,0 +1,41 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { parsePLS, writePLS } from './pls';
+
+describe('PLS', () => {
+  it('writes numbered File, Title and Length keys', () => {
+    expect(writePLS([trackInfo({ title: 'Line\nBreak' })], 'Mix')).toBe(
+      '[playlist]\nX-GNOME-Title=Mix\nFile1=https://www.youtube.com/watch?v=dQw4w9WgXcQ\n' +
+        'Title1=Rick Astley - Line Break\nLength1=212\nNumberOfEntries=1\nVersion=2\n'
+    );
+  });
+
+  it('round-trips tracks and streams', () => {
+    const stream = trackInfo({
+      identifier: 'https://radio.example.com/live',
+      title: 'Live',
+      author: 'Radio',
+      length: 0,
+      isStream: true,
+      isSeekable: false,
+      uri: 'https://radio.example.com/live',
+      sourceName: 'http',
+    });
+    const result = parsePLS(writePLS([trackInfo(), stream], 'Mix'), { fallbackSource: 'http' });
+
+    expect(result.name).toBe('Mix');
+    expect(result.tracks).toEqual([trackInfo(), stream]);
+  });
+
+  it('orders entries by number and reports numbers without a File key', () => {
+    const result = parsePLS(
+      '[playlist]\r\n; comment\r\nTitle3=Orphan\r\nFile2=https://soundcloud.com/artist/second\r\n' +
+        'File1=https://www.youtube.com/watch?v=dQw4w9WgXcQ\r\nLength1=abc\r\nNumberOfEntries=3\r\n'
+    );
+
+    expect(result.tracks.map(track => track.sourceName)).toEqual(['youtube', 'soundcloud']);
+    expect(result.tracks[0].length).toBe(0);
+    expect(result.unmapped.map(({ index, reason }) => ({ index, reason }))).toEqual([
+      { index: 2, reason: 'Entry has no location' },
+    ]);
+  });
+});
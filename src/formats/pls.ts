@@ -0,0 +1,68 @@
+import { TrackInfo, PlaylistFileEntry, PlaylistImportOptions, PlaylistImportResult } from '../types';
+import { formatDisplayTitle, mapPlaylistEntries, singleLine, splitDisplayTitle, toFileSeconds } from './entries';
+
+/**
+ * Writes tracks as a PLS (version 2) playlist
+ */
+export function writePLS(tracks: TrackInfo[], name?: string): string {
+  const lines = ['[playlist]'];
+  if (name) {
+    lines.push(`X-GNOME-Title=${singleLine(name)}`);
+  }
+
+  tracks.forEach((track, index) => {
+    const number = index + 1;
+    lines.push(`File${number}=${singleLine(track.uri)}`);
+    lines.push(`Title${number}=${formatDisplayTitle(track)}`);
+    lines.push(`Length${number}=${toFileSeconds(track)}`);
+  });
+
+  lines.push(`NumberOfEntries=${tracks.length}`, 'Version=2');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Reads a PLS playlist. Entries are ordered by their number; numbers without a `File`
+ * key are reported as unmapped.
+ */
+export function parsePLS(content: string, options: PlaylistImportOptions = {}): PlaylistImportResult {
+  const byNumber = new Map<number, PlaylistFileEntry>();
+  let name: string | undefined;
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n|\r/)) {
+    const line = rawLine.trim();
+    const separator = line.indexOf('=');
+    if (separator <= 0 || line.startsWith(';') || line.startsWith('#')) {
+      continue;
+    }
+
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+    if (key === 'x-gnome-title' || key === 'playlistname') {
+      name = value || undefined;
+      continue;
+    }
+
+    const match = key.match(/^(file|title|length)(\d+)$/);
+    if (!match) {
+      continue;
+    }
+
+    const number = parseInt(match[2], 10);
+    const entry = byNumber.get(number) ?? {};
+    if (match[1] === 'file') {
+      entry.location = value;
+    } else if (match[1] === 'title') {
+      Object.assign(entry, splitDisplayTitle(value));
+    } else if (/^-?\d+$/.test(value)) {
+      const seconds = parseInt(value, 10);
+      entry.duration = seconds < 0 ? -1 : seconds * 1000;
+    }
+    byNumber.set(number, entry);
+  }
+
+  const entries = Array.from(byNumber.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry);
+  return mapPlaylistEntries(name, entries, options);
+}
@@ -0,0 +1,61 @@
+import { ShareCodePayload } from '../types';
+import { fromBase64Url, toBase64Url } from '../codec';
+import { SHARE_CODE_VERSION, decodeShareCode, encodeShareCode } from './shareCode';
+
+const reference: ShareCodePayload = {
+  mode: 'reference',
+  name: 'Mix',
+  selectedTrack: 0,
+  tracks: [{ sourceName: 'youtube', identifier: 'dQw4w9WgXcQ' }],
+};
+
+function modify(code: string, change: (bytes: Uint8Array) => void): string {
+  const bytes = fromBase64Url(code);
+  change(bytes);
+  return toBase64Url(bytes);
+}
+
+describe('share codes', () => {
+  it('round-trips full and reference payloads', () => {
+    const full: ShareCodePayload = {
+      mode: 'full',
+      name: 'Ünïcode 🎵',
+      selectedTrack: -1,
+      tracks: [Buffer.from([1, 2, 3]).toString('base64'), Buffer.from('track').toString('base64')],
+    };
+
+    expect(decodeShareCode(encodeShareCode(full))).toEqual(full);
+    expect(decodeShareCode(` ${encodeShareCode(reference)}\n`)).toEqual(reference);
+    expect(encodeShareCode(reference)).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(fromBase64Url(encodeShareCode(reference))[0]).toBe(SHARE_CODE_VERSION);
+  });
+
+  it('reports short codes as truncated before reading the version', () => {
+    expect(() => decodeShareCode('')).toThrow('Invalid share code: empty');
+    expect(() => decodeShareCode('AB')).toThrow('Invalid share code: truncated');
+    expect(() => decodeShareCode(encodeShareCode(reference).substring(0, 6))).toThrow('Invalid share code: truncated');
+  });
+
+  it('rejects other versions and characters outside base64url', () => {
+    const code = modify(encodeShareCode(reference), bytes => {
+      bytes[0] = 9;
+    });
+
+    expect(() => decodeShareCode(code)).toThrow('Unsupported share code version 9');
+    expect(() => decodeShareCode('abc$def')).toThrow('Invalid share code: contains characters outside URL-safe base64');
+  });
+
+  it('detects a modified payload or checksum', () => {
+    const code = encodeShareCode(reference);
+    const last = fromBase64Url(code).length - 1;
+
+    expect(() => decodeShareCode(modify(code, bytes => { bytes[last] ^= 1; }))).toThrow('checksum mismatch');
+    expect(() => decodeShareCode(modify(code, bytes => { bytes[2] ^= 0x80; }))).toThrow('checksum mismatch');
+    expect(() => decodeShareCode(code.substring(0, code.length - 2))).toThrow('checksum mismatch');
+  });
+
+  it('covers the version byte with the checksum', () => {
+    // The same payload with a checksum of the compressed bytes only
+    expect(() => decodeShareCode('Af8CACtjZGD2zaxggABGBvbK_NKS0qRUBu6UwHKTcsvw9IjkQAA')).toThrow('checksum mismatch');
+  });
+});
@@ -0,0 +1,171 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { ShareCodePayload, TrackReference } from '../types';
+import { DataReader, DataWriter, toBase64Url, fromBase64Url } from '../codec';
+
+/**
+ * Current share code format version
+ */
+export const SHARE_CODE_VERSION = 1;
+
+/**
+ * Version byte and CRC32 checksum in front of the compressed payload
+ */
+const HEADER_LENGTH = 5;
+
+/**
+ * Largest payload a share code may inflate to, so a crafted code cannot exhaust memory
+ */
+const MAX_PAYLOAD_LENGTH = 8 * 1024 * 1024;
+
+const MODE_FULL = 0;
+const MODE_REFERENCE = 1;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Packs a playlist payload into a URL-safe share code: a version byte and a CRC32
+ * checksum of the version and payload, followed by the deflated payload, in base64url
+ */
+export function encodeShareCode(payload: ShareCodePayload): string {
+  const writer = new DataWriter();
+  writer.writeByte(payload.mode === 'full' ? MODE_FULL : MODE_REFERENCE);
+  writer.writeUTF(payload.name);
+  writer.writeInt(payload.selectedTrack);
+  writer.writeInt(payload.tracks.length);
+
+  if (payload.mode === 'full') {
+    for (const track of payload.tracks) {
+      const bytes = Buffer.from(track, 'base64');
+      writer.writeInt(bytes.length);
+      writer.writeBytes(bytes);
+    }
+  } else {
+    for (const track of payload.tracks) {
+      writer.writeUTF(track.sourceName);
+      writer.writeUTF(track.identifier);
+    }
+  }
+
+  const body = deflateRawSync(writer.toUint8Array(), { level: 9 });
+  const code = new Uint8Array(HEADER_LENGTH + body.length);
+  code[0] = SHARE_CODE_VERSION;
+  code.set(body, HEADER_LENGTH);
+  new DataView(code.buffer).setUint32(1, checksumOf(code));
+
+  return toBase64Url(code);
+}
+
+/**
+ * Unpacks a share code, rejecting codes that are malformed, truncated or modified
+ */
+export function decodeShareCode(code: string): ShareCodePayload {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(code.trim());
+  } catch {
+    throw new Error('Invalid share code: contains characters outside URL-safe base64');
+  }
+
+  if (bytes.length === 0) {
+    throw new Error('Invalid share code: empty');
+  }
+  if (bytes.length <= HEADER_LENGTH) {
+    throw new Error('Invalid share code: truncated');
+  }
+  if (bytes[0] !== SHARE_CODE_VERSION) {
+    throw new Error(`Unsupported share code version ${bytes[0]}`);
+  }
+
+  const checksum = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(1);
+  if (checksumOf(bytes) !== checksum) {
+    throw new Error('Invalid share code: checksum mismatch, the code is truncated or was modified');
+  }
+
+  let payload: Uint8Array;
+  try {
+    payload = inflateRawSync(bytes.subarray(HEADER_LENGTH), { maxOutputLength: MAX_PAYLOAD_LENGTH });
+  } catch {
+    throw new Error('Invalid share code: payload cannot be decompressed');
+  }
+
+  try {
+    return readPayload(new DataReader(payload));
+  } catch (error) {
+    throw new Error(`Invalid share code: ${error instanceof Error ? error.message : 'corrupt payload'}`);
+  }
+}
+
+function readPayload(reader: DataReader): ShareCodePayload {
+  const mode = reader.readByte();
+  const name = reader.readUTF();
+  const selectedTrack = reader.readInt();
+  const count = reader.readInt();
+
+  if (mode !== MODE_FULL && mode !== MODE_REFERENCE) {
+    throw new Error(`unknown mode ${mode}`);
+  }
+  // Every track takes at least four bytes, which bounds a forged count
+  if (count < 0 || count > reader.remaining / 4) {
+    throw new Error(`track count ${count} does not match the payload`);
+  }
+  if (selectedTrack < -1 || selectedTrack >= count) {
+    throw new Error(`selected track ${selectedTrack} is out of range`);
+  }
+
+  if (mode === MODE_FULL) {
+    const tracks: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const length = reader.readInt();
+      if (length <= 0) {
+        throw new Error(`track ${i} has an invalid length`);
+      }
+      tracks.push(Buffer.from(reader.readBytes(length)).toString('base64'));
+    }
+    return finish(reader, { mode: 'full', name, selectedTrack, tracks });
+  }
+
+  const tracks: TrackReference[] = [];
+  for (let i = 0; i < count; i++) {
+    tracks.push({ sourceName: reader.readUTF(), identifier: reader.readUTF() });
+  }
+  return finish(reader, { mode: 'reference', name, selectedTrack, tracks });
+}
+
+function finish(reader: DataReader, payload: ShareCodePayload): ShareCodePayload {
+  if (reader.remaining > 0) {
+    throw new Error(`${reader.remaining} unexpected trailing bytes`);
+  }
+  return payload;
+}
+
+/**
+ * Checksum of a share code's version byte and compressed payload, skipping the
+ * checksum field between them
+ */
+function checksumOf(code: Uint8Array): number {
+  return crc32(code.subarray(0, 1), code.subarray(HEADER_LENGTH));
+}
+
+/**
+ * CRC-32 (IEEE 802.3), as used by zlib and PNG, over the chunks in order
+ */
+function crc32(...chunks: Uint8Array[]): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const bytes of chunks) {
+    for (let i = 0; i < bytes.length; i++) {
+      crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,70 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { detectPlaylistFormat } from '.';
+import { STREAM_META_REL } from './entries';
+import { parseXSPF, writeXSPF } from './xspf';
+
+const stream = trackInfo({
+  identifier: 'https://radio.example.com/live',
+  title: 'Live',
+  author: 'Radio',
+  length: 0,
+  isStream: true,
+  isSeekable: false,
+  uri: 'https://radio.example.com/live',
+  sourceName: 'http',
+});
+
+describe('XSPF', () => {
+  it('round-trips tracks, escaped text and artwork', () => {
+    const tracks = [
+      trackInfo({ title: 'Tom & Jerry <"Live">', artworkUrl: 'https://img.example.com/a.jpg?x=1&y=2' }),
+    ];
+    const content = writeXSPF(tracks, "Rock 'n' Roll");
+
+    expect(detectPlaylistFormat(content)).toBe('xspf');
+    expect(content).toContain('<title>Tom &amp; Jerry &lt;&quot;Live&quot;&gt;</title>');
+    expect(parseXSPF(content)).toEqual({ name: "Rock 'n' Roll", tracks, unmapped: [] });
+  });
+
+  it('marks streams with a meta element and reads them back as streams', () => {
+    const content = writeXSPF([trackInfo(), stream]);
+
+    expect(content).toContain(`<meta rel="${STREAM_META_REL}">true</meta>`);
+    expect(content.match(/<meta /g)).toHaveLength(1);
+    expect(content).not.toMatch(/<duration>0<\/duration>/);
+    expect(parseXSPF(content, { fallbackSource: 'http' }).tracks).toEqual([trackInfo(), stream]);
+  });
+
+  it('reads tracks without the stream marker as seekable', () => {
+    const content = writeXSPF([stream]).replace(/\s*<meta [^>]*>true<\/meta>/, '');
+    const [track] = parseXSPF(content, { fallbackSource: 'http' }).tracks;
+
+    expect(track.isStream).toBe(false);
+    expect(track.isSeekable).toBe(true);
+  });
+
+  it('reads comments, CDATA, numeric entities and the first location only', () => {
+    const result = parseXSPF(`<?xml version="1.0"?>
+<!-- <playlist> in a comment -->
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <trackList>
+    <track>
+      <location>https://www.youtube.com/watch?v=dQw4w9WgXcQ</location>
+      <location>https://soundcloud.com/artist/song</location>
+      <title><![CDATA[A & B]]></title>
+      <creator>Caf&#233; &#x263A;</creator>
+      <meta rel="https://example.com/other">true</meta>
+    </track>
+  </trackList>
+</playlist>`);
+
+    expect(result.name).toBeUndefined();
+    expect(result.tracks.map(({ title, author, sourceName, isStream }) => ({ title, author, sourceName, isStream }))).toEqual([
+      { title: 'A & B', author: 'Café ☺', sourceName: 'youtube', isStream: false },
+    ]);
+  });
+
+  it('rejects documents without a playlist element', () => {
+    expect(() => parseXSPF('<html></html>')).toThrow('Invalid XSPF playlist: missing <playlist> element');
+  });
+});
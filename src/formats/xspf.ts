@@ -0,0 +1,106 @@
+import { TrackInfo, PlaylistFileEntry, PlaylistImportOptions, PlaylistImportResult } from '../types';
+import { STREAM_META_REL, mapPlaylistEntries } from './entries';
+
+const XML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Writes tracks as an XSPF playlist. Durations are in milliseconds and omitted for streams,
+ * which are marked with a `<meta>` element instead.
+ */
+export function writeXSPF(tracks: TrackInfo[], name?: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+  ];
+  if (name) {
+    lines.push(`  <title>${escapeXml(name)}</title>`);
+  }
+
+  lines.push('  <trackList>');
+  for (const track of tracks) {
+    lines.push('    <track>');
+    lines.push(`      <location>${escapeXml(track.uri)}</location>`);
+    lines.push(`      <title>${escapeXml(track.title)}</title>`);
+    lines.push(`      <creator>${escapeXml(track.author)}</creator>`);
+    if (!track.isStream && track.length > 0) {
+      lines.push(`      <duration>${Math.round(track.length)}</duration>`);
+    }
+    if (track.artworkUrl) {
+      lines.push(`      <image>${escapeXml(track.artworkUrl)}</image>`);
+    }
+    if (track.isStream) {
+      lines.push(`      <meta rel="${STREAM_META_REL}">true</meta>`);
+    }
+    lines.push('    </track>');
+  }
+  lines.push('  </trackList>', '</playlist>');
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Reads an XSPF playlist. Only the first `location` of each track is used, and tracks
+ * with the stream `<meta>` written by `writeXSPF` are read as streams.
+ */
+export function parseXSPF(content: string, options: PlaylistImportOptions = {}): PlaylistImportResult {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+  if (!/<playlist[\s>]/.test(xml)) {
+    throw new Error('Invalid XSPF playlist: missing <playlist> element');
+  }
+
+  const trackList = xml.match(/<trackList\b[^>]*>([\s\S]*?)<\/trackList>/);
+  const header = trackList ? xml.substring(0, trackList.index) : xml;
+  const name = readElement(header, 'title');
+
+  const entries: PlaylistFileEntry[] = [];
+  for (const match of (trackList?.[1] ?? '').matchAll(/<track\b[^>]*>([\s\S]*?)<\/track>/g)) {
+    const duration = readElement(match[1], 'duration');
+    const image = readElement(match[1], 'image');
+    const isStream = readMeta(match[1], STREAM_META_REL) === 'true';
+    entries.push({
+      location: readElement(match[1], 'location'),
+      title: readElement(match[1], 'title'),
+      author: readElement(match[1], 'creator'),
+      ...(isStream
+        ? { duration: -1 }
+        : duration && /^\d+$/.test(duration) && { duration: parseInt(duration, 10) }),
+      ...(image && { artworkUrl: image }),
+    });
+  }
+
+  return mapPlaylistEntries(name, entries, options);
+}
+
+function readElement(xml: string, element: string): string | undefined {
+  const match = xml.match(new RegExp(`<${element}\\b[^>]*>([\\s\\S]*?)</${element}>`));
+  return match ? unescapeXml(match[1]).trim() : undefined;
+}
+
+function readMeta(xml: string, rel: string): string | undefined {
+  for (const match of xml.matchAll(/<meta\b([^>]*)>([\s\S]*?)<\/meta>/g)) {
+    const attribute = match[1].match(/\brel\s*=\s*(?:"([^"]*)"|'([^']*)')/);
+    if (attribute && unescapeXml(attribute[1] ?? attribute[2]) === rel) {
+      return unescapeXml(match[2]).trim();
+    }
+  }
+  return undefined;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, character => XML_ESCAPES[character]);
+}
+
+function unescapeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1];
+  }
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+      return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -9,6 +9,35 @@ export { PlaylistEncoder } from './encoders/PlaylistEncoder';
 
 // Discord-specific encoder
 export { DiscordTrackEncoder } from './discord/DiscordTrackEncoder';
+export {
+  DISCORD_USER_DATA_KEY,
+  wrapDiscordContext,
+  unwrapDiscordContext,
+  extractDiscordContext,
+} from './discord/DiscordContext';
+export { GuildQueue } from './discord/GuildQueue';
+export {
+  QUEUE_SNAPSHOT_VERSION,
+  serializeQueueSnapshot,
+  serializeQueueSnapshotToString,
+  deserializeQueueSnapshot,
+  migrateQueueSnapshot,
+} from './discord/QueueSnapshot';
+
+// Playlist and queue persistence
+export * from './storage';
+
+// Track source registry
+export * from './sources';
+
+// Playlist file import and export
+export * from './formats';
+
+// Search identifiers
+export * from './search';
+
+// Lavaplayer binary track codec
+export * from './codec';
 
 // Types
 export * from './types';
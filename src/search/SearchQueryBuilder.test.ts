@@ -0,0 +1,48 @@
+import { SearchQueryBuilder, parseSearchQuery } from './SearchQueryBuilder';
+
+describe('parseSearchQuery', () => {
+  it('classifies URLs, prefixed searches and plain queries', () => {
+    expect(parseSearchQuery('https://youtu.be/dQw4w9WgXcQ')).toEqual({
+      type: 'url',
+      url: 'https://youtu.be/dQw4w9WgXcQ',
+      source: 'youtube',
+    });
+    expect(parseSearchQuery(' DZSEARCH: one more time ')).toEqual({
+      type: 'search',
+      prefix: 'dzsearch',
+      source: 'deezer',
+      query: 'one more time',
+    });
+    expect(parseSearchQuery('artist: song')).toEqual({ type: 'plain', query: 'artist: song' });
+  });
+});
+
+describe('SearchQueryBuilder', () => {
+  it('applies the guild default to plain queries', () => {
+    const search = new SearchQueryBuilder({ defaultPrefix: 'ytmsearch' });
+    search.setGuildDefault('guild-1', 'scsearch');
+
+    expect(search.build('daft  punk\tharder', { guildId: 'guild-1' })).toBe('scsearch:daft punk harder');
+    expect(search.build('daft punk', { guildId: 'guild-2' })).toBe('ytmsearch:daft punk');
+    expect(search.build('daft punk', { guildId: 'guild-1', prefix: 'spsearch' })).toBe('spsearch:daft punk');
+  });
+
+  it('keeps typed prefixes and passes URLs through', () => {
+    const search = new SearchQueryBuilder();
+    expect(search.build('spsearch:harder better')).toBe('spsearch:harder better');
+    expect(search.build('https://youtu.be/dQw4w9WgXcQ')).toBe('https://youtu.be/dQw4w9WgXcQ');
+  });
+
+  it('searches typed prefixes literally when user prefixes are not allowed', () => {
+    const search = new SearchQueryBuilder({ defaultPrefix: 'ytsearch', allowUserPrefixes: false });
+    expect(search.build('spsearch:foo')).toBe('ytsearch:spsearch:foo');
+  });
+
+  it('rejects empty, overlong and invalid queries', () => {
+    const search = new SearchQueryBuilder({ maxLength: 10 });
+    expect(() => search.build('   ')).toThrow('Search query cannot be empty');
+    expect(() => search.build('a'.repeat(11))).toThrow('Search query exceeds 10 characters');
+    expect(() => search.buildSearch('dzisrc', 'bad isrc')).toThrow('Invalid ISRC');
+    expect(() => search.buildSearch('nosuch' as never, 'x')).toThrow('Unknown search prefix: nosuch');
+  });
+});
@@ -0,0 +1,163 @@
+import { SearchPrefix, ParsedSearchQuery, SearchQueryBuilderOptions } from '../types';
+import { SourceRegistry, defaultSourceRegistry } from '../sources';
+import { normalizeIsrc } from '../utils/isrc';
+
+/**
+ * Source name of the tracks each search prefix returns
+ */
+export const SEARCH_PREFIX_SOURCES: Readonly<Record<SearchPrefix, string>> = {
+  ytsearch: 'youtube',
+  ytmsearch: 'youtube',
+  scsearch: 'soundcloud',
+  spsearch: 'spotify',
+  amsearch: 'applemusic',
+  dzsearch: 'deezer',
+  dzisrc: 'deezer',
+  ytrec: 'youtube',
+};
+
+const YOUTUBE_VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+
+/**
+ * Checks whether a string is a known search prefix
+ */
+export function isSearchPrefix(value: string): value is SearchPrefix {
+  return Object.prototype.hasOwnProperty.call(SEARCH_PREFIX_SOURCES, value);
+}
+
+/**
+ * Classifies a load identifier as a URL, a prefixed search or a plain query
+ */
+export function parseSearchQuery(
+  input: string,
+  sources: SourceRegistry = defaultSourceRegistry
+): ParsedSearchQuery {
+  const value = input.trim();
+
+  if (/^https?:\/\//i.test(value)) {
+    return { type: 'url', url: value, source: sources.detect(value) ?? 'unknown' };
+  }
+
+  const separator = value.indexOf(':');
+  if (separator > 0) {
+    const prefix = value.substring(0, separator).toLowerCase();
+    if (isSearchPrefix(prefix)) {
+      return {
+        type: 'search',
+        prefix,
+        source: SEARCH_PREFIX_SOURCES[prefix],
+        query: value.substring(separator + 1).trim(),
+      };
+    }
+  }
+
+  return { type: 'plain', query: value };
+}
+
+/**
+ * Builds Lavalink load identifiers from user input, applying per-guild default search sources
+ */
+export class SearchQueryBuilder {
+  private options: Required<SearchQueryBuilderOptions>;
+  private guildDefaults = new Map<string, SearchPrefix>();
+
+  constructor(options: SearchQueryBuilderOptions = {}) {
+    this.options = {
+      defaultPrefix: options.defaultPrefix ?? 'ytsearch',
+      maxLength: options.maxLength ?? 500,
+      allowUserPrefixes: options.allowUserPrefixes ?? true,
+      sources: options.sources ?? defaultSourceRegistry,
+    };
+    this.requirePrefix(this.options.defaultPrefix);
+  }
+
+  /**
+   * Sets the search prefix used for a guild's plain queries
+   */
+  public setGuildDefault(guildId: string, prefix: SearchPrefix): this {
+    this.requirePrefix(prefix);
+    this.guildDefaults.set(guildId, prefix);
+    return this;
+  }
+
+  /**
+   * Gets the search prefix used for a guild's plain queries
+   */
+  public getGuildDefault(guildId?: string): SearchPrefix {
+    return (guildId !== undefined && this.guildDefaults.get(guildId)) || this.options.defaultPrefix;
+  }
+
+  /**
+   * Reverts a guild to the default search prefix
+   */
+  public clearGuildDefault(guildId: string): boolean {
+    return this.guildDefaults.delete(guildId);
+  }
+
+  /**
+   * Classifies user input as a URL, a prefixed search or a plain query
+   */
+  public parse(input: string): ParsedSearchQuery {
+    return parseSearchQuery(input, this.options.sources);
+  }
+
+  /**
+   * Builds the identifier to load for user input. URLs are passed through, prefixed
+   * searches are kept when user prefixes are allowed, and plain queries get the
+   * given prefix or the guild's default. With `allowUserPrefixes: false` a typed
+   * prefix is not stripped but searched for as part of the query.
+   */
+  public build(input: string, options: { guildId?: string; prefix?: SearchPrefix } = {}): string {
+    const parsed = this.parse(input);
+
+    if (parsed.type === 'url') {
+      return parsed.url;
+    }
+    if (parsed.type === 'search' && this.options.allowUserPrefixes) {
+      return this.format(parsed.prefix, parsed.query);
+    }
+
+    const prefix = options.prefix ?? this.getGuildDefault(options.guildId);
+    this.requirePrefix(prefix);
+    return this.format(prefix, input);
+  }
+
+  /**
+   * Builds a search for one prefix, ignoring any prefix or URL in the query
+   */
+  public buildSearch(prefix: SearchPrefix, query: string): string {
+    this.requirePrefix(prefix);
+    return this.format(prefix, query);
+  }
+
+  private format(prefix: SearchPrefix, query: string): string {
+    // Control characters would end the identifier in the REST query string
+    const cleaned = query.replace(/[\u0000-\u001f\u007f]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+    if (!cleaned) {
+      throw new Error('Search query cannot be empty');
+    }
+    if (cleaned.length > this.options.maxLength) {
+      throw new Error(`Search query exceeds ${this.options.maxLength} characters`);
+    }
+
+    if (prefix === 'dzisrc') {
+      const isrc = normalizeIsrc(cleaned);
+      if (!isrc) {
+        throw new Error(`Invalid ISRC: ${cleaned}`);
+      }
+      return `${prefix}:${isrc}`;
+    }
+    if (prefix === 'ytrec' && !YOUTUBE_VIDEO_ID.test(cleaned)) {
+      throw new Error(`Invalid YouTube video ID: ${cleaned}`);
+    }
+
+    return `${prefix}:${cleaned}`;
+  }
+
+  private requirePrefix(prefix: string): void {
+    if (!isSearchPrefix(prefix)) {
+      throw new Error(`Unknown search prefix: ${prefix}`);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Search identifier building and parsing
+ */
+
+export {
+  SearchQueryBuilder,
+  SEARCH_PREFIX_SOURCES,
+  isSearchPrefix,
+  parseSearchQuery,
+} from './SearchQueryBuilder';
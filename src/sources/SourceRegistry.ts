@@ -0,0 +1,114 @@
+import { SourceDefinition, SourceTrackData, TrackInfo } from '../types';
+
+/**
+ * Registry of track sources driving the track factories and source detection
+ */
+export class SourceRegistry {
+  private sources = new Map<string, SourceDefinition>();
+
+  constructor(definitions: SourceDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Registers a source, replacing any source with the same name
+   */
+  public register(definition: SourceDefinition): this {
+    if (!definition.name) {
+      throw new Error('Source name is required');
+    }
+    this.sources.set(definition.name, definition);
+    return this;
+  }
+
+  /**
+   * Removes a source
+   */
+  public unregister(name: string): boolean {
+    return this.sources.delete(name);
+  }
+
+  /**
+   * Gets a source by name
+   */
+  public get(name: string): SourceDefinition | undefined {
+    return this.sources.get(name);
+  }
+
+  /**
+   * Checks whether a source is registered
+   */
+  public has(name: string): boolean {
+    return this.sources.has(name);
+  }
+
+  /**
+   * Gets all registered sources in registration order
+   */
+  public list(): SourceDefinition[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Detects the source of a URI, or null when no source matches
+   */
+  public detect(uri: string): string | null {
+    for (const source of this.sources.values()) {
+      if (source.urlPatterns.some(pattern => pattern.test(uri))) {
+        return source.name;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Converts a duration in the source's unit to milliseconds
+   */
+  public toMilliseconds(name: string, duration: number): number {
+    return this.require(name).durationUnit === 'seconds' ? duration * 1000 : duration;
+  }
+
+  /**
+   * Builds the track info for a source from its basic track data
+   */
+  public buildTrackInfo(
+    name: string,
+    data: SourceTrackData,
+    additionalInfo: Partial<TrackInfo> = {},
+    validate: boolean = true
+  ): TrackInfo {
+    const source = this.require(name);
+
+    if (validate && source.validateIdentifier && !source.validateIdentifier(data.identifier)) {
+      throw new Error(`Invalid ${name} identifier: ${data.identifier}`);
+    }
+
+    return {
+      identifier: data.identifier,
+      title: data.title,
+      author: data.author,
+      length: this.toMilliseconds(name, data.duration),
+      uri: source.buildUri(data.identifier, { title: data.title, author: data.author }),
+      isSeekable: data.duration > 0,
+      isStream: data.duration === 0,
+      position: 0,
+      sourceName: source.name,
+      ...additionalInfo,
+    };
+  }
+
+  /**
+   * Creates an independent copy of this registry
+   */
+  public clone(): SourceRegistry {
+    return new SourceRegistry(this.list());
+  }
+
+  private require(name: string): SourceDefinition {
+    const source = this.sources.get(name);
+    if (!source) {
+      throw new Error(`Unknown source: ${name}`);
+    }
+    return source;
+  }
+}
@@ -0,0 +1,34 @@
+import { defaultSourceRegistry } from './builtinSources';
+
+const track = { title: 'Title', author: 'Some Artist', duration: 1000 };
+
+describe('built-in sources', () => {
+  it('builds track URIs from identifiers', () => {
+    const uri = (name: string, identifier: string) =>
+      defaultSourceRegistry.buildTrackInfo(name, { ...track, identifier }).uri;
+
+    expect(uri('youtube', 'dQw4w9WgXcQ')).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+    expect(uri('deezer', '3135556')).toBe('https://www.deezer.com/track/3135556');
+    expect(uri('applemusic', '1440857781')).toBe('https://music.apple.com/song/1440857781');
+    expect(uri('yandexmusic', '33311009')).toBe('https://music.yandex.ru/track/33311009');
+    expect(uri('bandcamp', 'song')).toBe('https://someartist.bandcamp.com/track/song');
+  });
+
+  it('keeps a LavaSrc URI passed in the additional info', () => {
+    const uri = 'https://music.yandex.ru/album/3192570/track/33311009';
+    const info = defaultSourceRegistry.buildTrackInfo('yandexmusic', { ...track, identifier: '33311009' }, { uri });
+    expect(info.uri).toBe(uri);
+  });
+
+  it('rejects identifiers a source does not accept', () => {
+    expect(() => defaultSourceRegistry.buildTrackInfo('applemusic', { ...track, identifier: 'abc' }))
+      .toThrow('Invalid applemusic identifier: abc');
+  });
+
+  it('detects sources from URLs', () => {
+    expect(defaultSourceRegistry.detect('https://music.apple.com/us/album/x/1440857781?i=1440857786')).toBe('applemusic');
+    expect(defaultSourceRegistry.detect('https://music.yandex.com/album/3192570/track/33311009')).toBe('yandexmusic');
+    expect(defaultSourceRegistry.detect('https://radio.example.com/live.mp3')).toBe('http');
+    expect(defaultSourceRegistry.detect('https://example.com/page')).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { SourceDefinition } from '../types';
+import { SourceRegistry } from './SourceRegistry';
+
+/**
+ * Uses the identifier itself as the URI when it already is one
+ */
+function urlOr(identifier: string, build: () => string): string {
+  return /^https?:\/\//i.test(identifier) ? identifier : build();
+}
+
+export const youtubeSource: SourceDefinition = {
+  name: 'youtube',
+  buildUri: identifier => `https://www.youtube.com/watch?v=${identifier}`,
+  urlPatterns: [/youtube\.com/, /youtu\.be/],
+  validateIdentifier: identifier => /^[A-Za-z0-9_-]{11}$/.test(identifier),
+  durationUnit: 'seconds',
+};
+
+export const spotifySource: SourceDefinition = {
+  name: 'spotify',
+  buildUri: identifier => `https://open.spotify.com/track/${identifier}`,
+  urlPatterns: [/spotify\.com/],
+  validateIdentifier: identifier => /^[A-Za-z0-9]{22}$/.test(identifier),
+  durationUnit: 'milliseconds',
+};
+
+export const soundcloudSource: SourceDefinition = {
+  name: 'soundcloud',
+  buildUri: (identifier, track) => `https://soundcloud.com/${track.author}/${track.title}`,
+  urlPatterns: [/soundcloud\.com/],
+  durationUnit: 'milliseconds',
+};
+
+export const twitchSource: SourceDefinition = {
+  name: 'twitch',
+  buildUri: identifier => urlOr(identifier, () => `https://www.twitch.tv/${identifier}`),
+  urlPatterns: [/twitch\.tv/],
+  durationUnit: 'milliseconds',
+};
+
+export const bandcampSource: SourceDefinition = {
+  name: 'bandcamp',
+  buildUri: (identifier, track) =>
+    urlOr(identifier, () => `https://${track.author.toLowerCase().replace(/[^a-z0-9]+/g, '')}.bandcamp.com/track/${identifier}`),
+  urlPatterns: [/bandcamp\.com/],
+  durationUnit: 'seconds',
+};
+
+/**
+ * Best-effort URI: LavaSrc links the album page (`/{country}/album/{name}/{albumId}?i={id}`),
+ * which the song ID alone cannot build. The short song link opens the same track.
+ */
+export const appleMusicSource: SourceDefinition = {
+  name: 'applemusic',
+  buildUri: identifier => `https://music.apple.com/song/${identifier}`,
+  urlPatterns: [/music\.apple\.com/],
+  validateIdentifier: identifier => /^\d+$/.test(identifier),
+  durationUnit: 'milliseconds',
+};
+
+export const deezerSource: SourceDefinition = {
+  name: 'deezer',
+  buildUri: identifier => `https://www.deezer.com/track/${identifier}`,
+  urlPatterns: [/deezer\.com/, /deezer\.page\.link/],
+  validateIdentifier: identifier => /^\d+$/.test(identifier),
+  durationUnit: 'seconds',
+};
+
+export const vimeoSource: SourceDefinition = {
+  name: 'vimeo',
+  buildUri: identifier => urlOr(identifier, () => `https://vimeo.com/${identifier}`),
+  urlPatterns: [/vimeo\.com/],
+  validateIdentifier: identifier => /^\d+$/.test(identifier) || /vimeo\.com/.test(identifier),
+  durationUnit: 'seconds',
+};
+
+/**
+ * Best-effort URI: LavaSrc links `/album/{albumId}/track/{id}`, which the track ID alone
+ * cannot build. The album-less track link opens the same track.
+ */
+export const yandexMusicSource: SourceDefinition = {
+  name: 'yandexmusic',
+  buildUri: identifier => `https://music.yandex.ru/track/${identifier}`,
+  urlPatterns: [/music\.yandex\.[a-z]+/],
+  validateIdentifier: identifier => /^\d+$/.test(identifier),
+  durationUnit: 'milliseconds',
+};
+
+/**
+ * Direct media URLs played by Lavaplayer's HTTP source; the identifier is the URL itself
+ */
+export const httpSource: SourceDefinition = {
+  name: 'http',
+  buildUri: identifier => identifier,
+  urlPatterns: [/^https?:\/\/[^?#]+\.(?:mp3|m4a|aac|ogg|oga|opus|flac|wav|webm|mka|m3u8?|pls)(?:[?#]|$)/i],
+  validateIdentifier: identifier => /^https?:\/\//i.test(identifier),
+  durationUnit: 'milliseconds',
+};
+
+/**
+ * Files played by Lavaplayer's local source; the identifier and URI are the file path
+ */
+export const localSource: SourceDefinition = {
+  name: 'local',
+  buildUri: identifier => identifier,
+  urlPatterns: [/^file:\/\//i, /^\//, /^[A-Za-z]:[\\/]/],
+  durationUnit: 'milliseconds',
+};
+
+/**
+ * Creates a registry with the built-in sources
+ */
+export function createDefaultSourceRegistry(): SourceRegistry {
+  return new SourceRegistry([
+    youtubeSource,
+    spotifySource,
+    soundcloudSource,
+    twitchSource,
+    bandcampSource,
+    appleMusicSource,
+    deezerSource,
+    vimeoSource,
+    yandexMusicSource,
+    // Matched last so site-specific sources win over a plain media URL
+    httpSource,
+    localSource,
+  ]);
+}
+
+/**
+ * Registry used by encoders and `detectTrackSource` when none is given
+ */
+export const defaultSourceRegistry = createDefaultSourceRegistry();
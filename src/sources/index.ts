@@ -0,0 +1,20 @@
+/**
+ * Track source definitions and registry
+ */
+
+export { SourceRegistry } from './SourceRegistry';
+export {
+  youtubeSource,
+  spotifySource,
+  soundcloudSource,
+  twitchSource,
+  bandcampSource,
+  appleMusicSource,
+  deezerSource,
+  vimeoSource,
+  yandexMusicSource,
+  httpSource,
+  localSource,
+  createDefaultSourceRegistry,
+  defaultSourceRegistry,
+} from './builtinSources';
@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { FileStoreOptions, PlaylistStore, PlaylistStoreQuery, StoredPlaylist } from '../types';
+import { createStoredPlaylist, matchesPlaylistQuery, requireStoreId } from './records';
+import { fileExists, listFiles, readFileIfExists, removeFile, toFileName, withFileLock, writeFileAtomic } from './files';
+
+const EXTENSION = '.json';
+
+/**
+ * Playlist store keeping one JSON file per playlist in a directory. Writes are atomic
+ * and serialized per playlist with lock files, so several processes can share the directory.
+ */
+export class FileSystemPlaylistStore implements PlaylistStore {
+  private directory: string;
+  private options: Required<FileStoreOptions>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    this.directory = directory;
+    this.options = {
+      lockTimeout: options.lockTimeout ?? 5000,
+      staleLockAge: options.staleLockAge ?? 30000,
+    };
+  }
+
+  public async get(id: string): Promise<StoredPlaylist | null> {
+    return this.read(this.pathOf(requireStoreId(id, 'Playlist id')));
+  }
+
+  public async put(playlist: Omit<StoredPlaylist, 'createdAt' | 'updatedAt'>): Promise<StoredPlaylist> {
+    const path = this.pathOf(requireStoreId(playlist.id, 'Playlist id'));
+    await fs.mkdir(this.directory, { recursive: true });
+
+    return withFileLock(path, this.options, async () => {
+      const stored = createStoredPlaylist(playlist, await this.read(path));
+      await writeFileAtomic(path, JSON.stringify(stored));
+      return stored;
+    });
+  }
+
+  public async list(query: PlaylistStoreQuery = {}): Promise<StoredPlaylist[]> {
+    const files = await listFiles(this.directory, EXTENSION);
+    const playlists = await Promise.all(files.map(file => this.read(join(this.directory, file))));
+
+    return playlists
+      .filter((playlist): playlist is StoredPlaylist => playlist !== null && matchesPlaylistQuery(playlist, query))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    const path = this.pathOf(requireStoreId(id, 'Playlist id'));
+    // The lock file cannot be created when the directory does not exist yet
+    if (!(await fileExists(path))) {
+      return false;
+    }
+    return withFileLock(path, this.options, () => removeFile(path));
+  }
+
+  private pathOf(id: string): string {
+    return join(this.directory, toFileName(id, EXTENSION));
+  }
+
+  /**
+   * Reads a stored playlist; a file deleted while listing reads as null
+   */
+  private async read(path: string): Promise<StoredPlaylist | null> {
+    const data = await readFileIfExists(path);
+    if (data === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(data.toString('utf8'));
+    } catch {
+      throw new Error(`Corrupt playlist file: ${path}`);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { FileStoreOptions, QueueSnapshot, QueueStore } from '../types';
+import { deserializeQueueSnapshot, migrateQueueSnapshot, serializeQueueSnapshot } from '../discord/QueueSnapshot';
+import { requireStoreId } from './records';
+import {
+  fileExists,
+  fromFileName,
+  listFiles,
+  readFileIfExists,
+  removeFile,
+  toFileName,
+  withFileLock,
+  writeFileAtomic,
+} from './files';
+
+const EXTENSION = '.snapshot';
+
+/**
+ * Queue snapshot store keeping one compressed snapshot file per guild in a directory.
+ * Writes are atomic and serialized per guild with lock files.
+ */
+export class FileSystemQueueStore implements QueueStore {
+  private directory: string;
+  private options: Required<FileStoreOptions>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    this.directory = directory;
+    this.options = {
+      lockTimeout: options.lockTimeout ?? 5000,
+      staleLockAge: options.staleLockAge ?? 30000,
+    };
+  }
+
+  public async get(guildId: string): Promise<QueueSnapshot | null> {
+    const path = this.pathOf(requireStoreId(guildId, 'Guild id'));
+    const data = await readFileIfExists(path);
+    return data === null ? null : deserializeQueueSnapshot(data);
+  }
+
+  public async put(snapshot: QueueSnapshot): Promise<void> {
+    const validated = migrateQueueSnapshot(snapshot);
+    const path = this.pathOf(requireStoreId(validated.guildId, 'Guild id'));
+    await fs.mkdir(this.directory, { recursive: true });
+
+    await withFileLock(path, this.options, () => writeFileAtomic(path, serializeQueueSnapshot(validated)));
+  }
+
+  public async list(): Promise<string[]> {
+    return (await listFiles(this.directory, EXTENSION)).map(file => fromFileName(file, EXTENSION)).sort();
+  }
+
+  public async delete(guildId: string): Promise<boolean> {
+    const path = this.pathOf(requireStoreId(guildId, 'Guild id'));
+    // The lock file cannot be created when the directory does not exist yet
+    if (!(await fileExists(path))) {
+      return false;
+    }
+    return withFileLock(path, this.options, () => removeFile(path));
+  }
+
+  private pathOf(guildId: string): string {
+    return join(this.directory, toFileName(guildId, EXTENSION));
+  }
+}
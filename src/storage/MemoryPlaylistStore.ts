@@ -0,0 +1,31 @@
+import { PlaylistStore, PlaylistStoreQuery, StoredPlaylist } from '../types';
+import { cloneRecord, createStoredPlaylist, matchesPlaylistQuery, requireStoreId } from './records';
+
+/**
+ * Playlist store kept in process memory, for tests and single-process bots
+ */
+export class MemoryPlaylistStore implements PlaylistStore {
+  private playlists = new Map<string, StoredPlaylist>();
+
+  public async get(id: string): Promise<StoredPlaylist | null> {
+    const playlist = this.playlists.get(requireStoreId(id, 'Playlist id'));
+    return playlist ? cloneRecord(playlist) : null;
+  }
+
+  public async put(playlist: Omit<StoredPlaylist, 'createdAt' | 'updatedAt'>): Promise<StoredPlaylist> {
+    const stored = createStoredPlaylist(playlist, this.playlists.get(playlist.id) ?? null);
+    this.playlists.set(stored.id, stored);
+    return cloneRecord(stored);
+  }
+
+  public async list(query: PlaylistStoreQuery = {}): Promise<StoredPlaylist[]> {
+    return [...this.playlists.values()]
+      .filter(playlist => matchesPlaylistQuery(playlist, query))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(playlist => cloneRecord(playlist));
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    return this.playlists.delete(requireStoreId(id, 'Playlist id'));
+  }
+}
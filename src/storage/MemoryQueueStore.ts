@@ -0,0 +1,28 @@
+import { QueueSnapshot, QueueStore } from '../types';
+import { migrateQueueSnapshot } from '../discord/QueueSnapshot';
+import { cloneRecord, requireStoreId } from './records';
+
+/**
+ * Queue snapshot store kept in process memory, for tests and single-process bots
+ */
+export class MemoryQueueStore implements QueueStore {
+  private snapshots = new Map<string, QueueSnapshot>();
+
+  public async get(guildId: string): Promise<QueueSnapshot | null> {
+    const snapshot = this.snapshots.get(requireStoreId(guildId, 'Guild id'));
+    return snapshot ? cloneRecord(snapshot) : null;
+  }
+
+  public async put(snapshot: QueueSnapshot): Promise<void> {
+    const validated = migrateQueueSnapshot(cloneRecord(snapshot));
+    this.snapshots.set(requireStoreId(validated.guildId, 'Guild id'), validated);
+  }
+
+  public async list(): Promise<string[]> {
+    return [...this.snapshots.keys()].sort();
+  }
+
+  public async delete(guildId: string): Promise<boolean> {
+    return this.snapshots.delete(requireStoreId(guildId, 'Guild id'));
+  }
+}
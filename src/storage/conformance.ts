@@ -0,0 +1,206 @@
+/**
+ * Conformance checks for storage backends. Run them against a new, empty store to
+ * verify that a custom `PlaylistStore` or `QueueStore` honours the shared contract.
+ */
+
+import {
+  LavalinkPlaylist,
+  PlaylistStore,
+  QueueSnapshot,
+  QueueStore,
+  StoreConformanceResult,
+  TrackInfo,
+} from '../types';
+import { QUEUE_SNAPSHOT_VERSION } from '../discord/QueueSnapshot';
+
+type Check<S> = [name: string, run: (store: S) => Promise<void>];
+
+const PLAYLIST_CHECKS: Check<PlaylistStore>[] = [
+  ['get returns null for a missing playlist', async store => {
+    check(await store.get('conformance-missing') === null, 'expected null');
+  }],
+  ['put stores a playlist that get returns', async store => {
+    const stored = await store.put({ id: 'conformance-a', ownerId: 'user-1', playlist: samplePlaylist('A') });
+    const loaded = await store.get('conformance-a');
+    check(loaded !== null, 'stored playlist not found');
+    check(loaded!.ownerId === 'user-1' && loaded!.playlist.info.name === 'A', 'stored playlist differs');
+    check(loaded!.playlist.tracks[0].track === stored.playlist.tracks[0].track, 'stored tracks differ');
+    check(loaded!.createdAt === stored.createdAt && loaded!.updatedAt >= loaded!.createdAt, 'timestamps not kept');
+  }],
+  ['put keeps createdAt when replacing a playlist', async store => {
+    const first = await store.put({ id: 'conformance-b', ownerId: 'user-1', playlist: samplePlaylist('B') });
+    const second = await store.put({ id: 'conformance-b', ownerId: 'user-1', playlist: samplePlaylist('B2') });
+    const loaded = await store.get('conformance-b');
+    check(second.createdAt === first.createdAt, 'createdAt changed');
+    check(second.updatedAt >= first.updatedAt, 'updatedAt went back');
+    check(loaded?.playlist.info.name === 'B2', 'playlist not replaced');
+  }],
+  ['list filters by owner and guild', async store => {
+    await store.put({ id: 'conformance-c', ownerId: 'user-2', guildId: 'guild-1', playlist: samplePlaylist('C') });
+    await store.put({ id: 'conformance-d', ownerId: 'user-2', guildId: 'guild-2', playlist: samplePlaylist('D') });
+    await store.put({ id: 'conformance-e', ownerId: 'user-3', guildId: 'guild-1', playlist: samplePlaylist('E') });
+    check(sameIds(await store.list({ ownerId: 'user-2' }), ['conformance-c', 'conformance-d']), 'owner filter');
+    check(sameIds(await store.list({ guildId: 'guild-1' }), ['conformance-c', 'conformance-e']), 'guild filter');
+    check(sameIds(await store.list({ ownerId: 'user-2', guildId: 'guild-1' }), ['conformance-c']), 'combined filter');
+  }],
+  ['list returns every playlist sorted by id without a query', async store => {
+    const ids = (await store.list()).map(playlist => playlist.id);
+    check(ids.join() === [...ids].sort().join(), 'not sorted by id');
+    check(['conformance-a', 'conformance-b', 'conformance-c'].every(id => ids.includes(id)), 'playlists missing');
+  }],
+  ['returned playlists are copies', async store => {
+    const loaded = await store.get('conformance-a');
+    loaded!.playlist.info.name = 'changed';
+    loaded!.playlist.tracks.length = 0;
+    const reloaded = await store.get('conformance-a');
+    check(reloaded?.playlist.info.name === 'A' && reloaded.playlist.tracks.length === 1, 'store was changed');
+  }],
+  ['ids with path and special characters are stored separately', async store => {
+    const ids = ['conformance/../x', 'conformance\\x', 'conformance x?#%', 'conformance-ü'];
+    for (const id of ids) {
+      await store.put({ id, ownerId: 'user-4', playlist: samplePlaylist(id) });
+    }
+    for (const id of ids) {
+      check((await store.get(id))?.playlist.info.name === id, `wrong playlist for ${id}`);
+    }
+  }],
+  ['concurrent puts all persist', async store => {
+    const ids = Array.from({ length: 10 }, (_, i) => `conformance-f${i}`);
+    await Promise.all(ids.map(id => store.put({ id, ownerId: 'user-5', playlist: samplePlaylist(id) })));
+    check(sameIds(await store.list({ ownerId: 'user-5' }), ids), 'puts were lost');
+  }],
+  ['delete removes a playlist and reports whether it existed', async store => {
+    check(await store.delete('conformance-a') === true, 'expected true for an existing playlist');
+    check(await store.get('conformance-a') === null, 'playlist still stored');
+    check(await store.delete('conformance-a') === false, 'expected false for a missing playlist');
+  }],
+  ['invalid ids are rejected', async store => {
+    await checkRejection(() => store.get(''), 'get');
+    await checkRejection(() => store.put({ id: '', ownerId: 'user-1', playlist: samplePlaylist('') }), 'put');
+  }],
+];
+
+const QUEUE_CHECKS: Check<QueueStore>[] = [
+  ['get returns null for a missing guild', async store => {
+    check(await store.get('conformance-missing') === null, 'expected null');
+  }],
+  ['put stores a snapshot that get returns', async store => {
+    const snapshot = sampleSnapshot('conformance-1', 1000);
+    await store.put(snapshot);
+    const loaded = await store.get('conformance-1');
+    check(loaded !== null, 'stored snapshot not found');
+    check(JSON.stringify(loaded) === JSON.stringify(snapshot), 'stored snapshot differs');
+  }],
+  ['put replaces the previous snapshot of a guild', async store => {
+    await store.put(sampleSnapshot('conformance-1', 2000));
+    check((await store.get('conformance-1'))?.position === 2000, 'snapshot not replaced');
+  }],
+  ['list returns the sorted guild ids', async store => {
+    await store.put(sampleSnapshot('conformance-3', 0));
+    await store.put(sampleSnapshot('conformance-2', 0));
+    const ids = await store.list();
+    check(ids.join() === [...ids].sort().join(), 'not sorted');
+    check(['conformance-1', 'conformance-2', 'conformance-3'].every(id => ids.includes(id)), 'guilds missing');
+  }],
+  ['returned snapshots are copies', async store => {
+    const loaded = await store.get('conformance-1');
+    loaded!.tracks.length = 0;
+    check((await store.get('conformance-1'))?.tracks.length === 1, 'store was changed');
+  }],
+  ['invalid snapshots are rejected', async store => {
+    await checkRejection(() => store.put({ ...sampleSnapshot('conformance-4', 0), currentIndex: 5 }), 'put');
+    check(await store.get('conformance-4') === null, 'invalid snapshot stored');
+  }],
+  ['delete removes a snapshot and reports whether it existed', async store => {
+    check(await store.delete('conformance-1') === true, 'expected true for an existing snapshot');
+    check(await store.get('conformance-1') === null, 'snapshot still stored');
+    check(await store.delete('conformance-1') === false, 'expected false for a missing snapshot');
+  }],
+];
+
+/**
+ * Checks a playlist store against the `PlaylistStore` contract. The store should start
+ * empty; the checks leave `conformance-` playlists behind.
+ */
+export function verifyPlaylistStore(store: PlaylistStore): Promise<StoreConformanceResult> {
+  return runChecks(store, PLAYLIST_CHECKS);
+}
+
+/**
+ * Checks a queue store against the `QueueStore` contract. The store should start
+ * empty; the checks leave `conformance-` guilds behind.
+ */
+export function verifyQueueStore(store: QueueStore): Promise<StoreConformanceResult> {
+  return runChecks(store, QUEUE_CHECKS);
+}
+
+async function runChecks<S>(store: S, checks: Check<S>[]): Promise<StoreConformanceResult> {
+  const results: StoreConformanceResult['checks'] = [];
+
+  // Later checks build on the records earlier ones stored, so they run in order
+  for (const [name, run] of checks) {
+    try {
+      await run(store);
+      results.push({ name, passed: true });
+    } catch (error) {
+      results.push({ name, passed: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { passed: results.every(result => result.passed), checks: results };
+}
+
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function checkRejection(action: () => Promise<unknown>, label: string): Promise<void> {
+  try {
+    await action();
+  } catch {
+    return;
+  }
+  throw new Error(`${label} did not reject`);
+}
+
+function sameIds(playlists: Array<{ id: string }>, ids: string[]): boolean {
+  return playlists.map(playlist => playlist.id).sort().join() === [...ids].sort().join();
+}
+
+function samplePlaylist(name: string): LavalinkPlaylist {
+  return {
+    info: { name, selectedTrack: -1 },
+    pluginInfo: {},
+    tracks: [{ track: 'QAAAAQEAB0NvbmZvcm0ABlRlc3Rlcg', info: sampleTrackInfo() }],
+  };
+}
+
+function sampleSnapshot(guildId: string, position: number): QueueSnapshot {
+  return {
+    version: QUEUE_SNAPSHOT_VERSION,
+    guildId,
+    tracks: [{ encoded: 'QAAAAQEAB0NvbmZvcm0ABlRlc3Rlcg', userData: { discord: { guildId } } }],
+    currentIndex: 0,
+    loopMode: 'off',
+    ordering: 'fifo',
+    position,
+    history: [],
+    createdAt: 0,
+  };
+}
+
+function sampleTrackInfo(): TrackInfo {
+  return {
+    identifier: 'conformance',
+    isSeekable: true,
+    author: 'Tester',
+    length: 1000,
+    isStream: false,
+    position: 0,
+    title: 'Conform',
+    uri: 'https://example.com/conformance',
+    sourceName: 'http',
+  };
+}
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fromFileName, toFileName, withFileLock } from './files';
+
+describe('toFileName', () => {
+  it('keeps ids inside the directory and round-trips them', () => {
+    for (const id of ['../escape', 'a/b\\c', '.hidden', 'ü x?#%']) {
+      const fileName = toFileName(id, '.json');
+      expect(fileName).not.toMatch(/[/\\]|^\./);
+      expect(fromFileName(fileName, '.json')).toBe(id);
+    }
+  });
+});
+
+describe('withFileLock', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'lavalink-encoder-lock-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('runs one action at a time', async () => {
+    const path = join(directory, 'record.json');
+    const options = { lockTimeout: 5000, staleLockAge: 30000 };
+    let holders = 0;
+    let maxHolders = 0;
+
+    await Promise.all(Array.from({ length: 8 }, () => withFileLock(path, options, async () => {
+      maxHolders = Math.max(maxHolders, ++holders);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      holders--;
+    })));
+
+    expect(maxHolders).toBe(1);
+    await expect(fs.stat(`${path}.lock`)).rejects.toThrow();
+  });
+
+  it('breaks a stale lock and lets the waiters through one at a time', async () => {
+    const path = join(directory, 'record.json');
+    const lockPath = `${path}.lock`;
+    await fs.writeFile(lockPath, 'crashed');
+    const old = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, old, old);
+
+    let holders = 0;
+    let maxHolders = 0;
+    let runs = 0;
+    await Promise.all(Array.from({ length: 8 }, () => withFileLock(path, { lockTimeout: 5000, staleLockAge: 1000 }, async () => {
+      maxHolders = Math.max(maxHolders, ++holders);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      holders--;
+      runs++;
+    })));
+
+    expect(runs).toBe(8);
+    expect(maxHolders).toBe(1);
+    expect((await fs.readdir(directory)).filter(name => name.includes('.lock'))).toEqual([]);
+  });
+
+  it('does not break a fresh lock taken after the stale one was seen', async () => {
+    const path = join(directory, 'record.json');
+    const lockPath = `${path}.lock`;
+    await fs.writeFile(lockPath, 'crashed');
+    const old = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, old, old);
+
+    // Another waiter breaks the stale lock and takes a fresh one right after this waiter saw it
+    const stat = fs.stat;
+    const spy = jest.spyOn(fs, 'stat').mockImplementationOnce(async (...args: Parameters<typeof fs.stat>) => {
+      const stale = await stat(...args);
+      await fs.rm(lockPath);
+      await fs.writeFile(lockPath, 'other-owner', { flag: 'wx' });
+      return stale;
+    });
+
+    try {
+      await expect(withFileLock(path, { lockTimeout: 100, staleLockAge: 1000 }, async () => undefined))
+        .rejects.toThrow('Timed out waiting for lock');
+    } finally {
+      spy.mockRestore();
+    }
+    expect(await fs.readFile(lockPath, 'utf8')).toBe('other-owner');
+    expect((await fs.readdir(directory)).filter(name => name.endsWith('.stale'))).toEqual([]);
+  });
+
+  it('does not release a lock another caller holds', async () => {
+    const path = join(directory, 'record.json');
+    const lockPath = `${path}.lock`;
+
+    await withFileLock(path, { lockTimeout: 1000, staleLockAge: 30000 }, async () => {
+      // Simulate the lock having been broken and taken by someone else meanwhile
+      await fs.writeFile(lockPath, 'other-owner');
+    });
+
+    expect(await fs.readFile(lockPath, 'utf8')).toBe('other-owner');
+  });
+
+  it('times out while a live lock is held', async () => {
+    const path = join(directory, 'record.json');
+    await fs.writeFile(`${path}.lock`, 'live');
+
+    await expect(withFileLock(path, { lockTimeout: 50, staleLockAge: 30000 }, async () => undefined))
+      .rejects.toThrow('Timed out waiting for lock');
+  });
+});
@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+
+const LOCK_RETRY_DELAY = 25;
+
+/**
+ * Maps a record ID to a file name that cannot escape the store directory
+ */
+export function toFileName(id: string, extension: string): string {
+  return `${encodeURIComponent(id).replace(/\./g, '%2E')}${extension}`;
+}
+
+export function fromFileName(fileName: string, extension: string): string {
+  return decodeURIComponent(fileName.substring(0, fileName.length - extension.length));
+}
+
+/**
+ * Reads a file, or returns null when it does not exist
+ */
+export async function readFileIfExists(path: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function fileExists(path: string): Promise<boolean> {
+  return (await fs.stat(path).catch(() => null)) !== null;
+}
+
+/**
+ * Deletes a file and returns whether it existed
+ */
+export async function removeFile(path: string): Promise<boolean> {
+  try {
+    await fs.unlink(path);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a file by writing and syncing a temporary file next to it and renaming it
+ * into place, so readers see either the old or the new content
+ */
+export async function writeFileAtomic(path: string, data: Uint8Array | string): Promise<void> {
+  const temporary = `${path}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+
+  try {
+    const handle = await fs.open(temporary, 'w');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(temporary, path);
+  } catch (error) {
+    await fs.rm(temporary, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Runs an action holding an exclusive lock on a file. The lock is a `.lock` file created
+ * with `wx`, so it also excludes other processes; locks older than `staleLockAge` are
+ * treated as left over by a crashed process and broken. The lock holds an owner token,
+ * so releasing never removes a lock another caller took.
+ */
+export async function withFileLock<T>(
+  path: string,
+  options: { lockTimeout: number; staleLockAge: number },
+  action: () => Promise<T>
+): Promise<T> {
+  const lockPath = `${path}.lock`;
+  const token = `${process.pid}.${randomBytes(6).toString('hex')}`;
+  const deadline = Date.now() + options.lockTimeout;
+
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, token, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const stat = await fs.stat(lockPath).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > options.staleLockAge) {
+      await breakStaleLock(lockPath, options.staleLockAge);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock on ${path}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY));
+  }
+
+  try {
+    return await action();
+  } finally {
+    if ((await readFileIfExists(lockPath))?.toString('utf8') === token) {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Breaks a stale lock by renaming it to a unique name before deleting it. The rename is
+ * atomic, so when several waiters saw the same stale lock only one of them moves it; a
+ * waiter that instead moved a fresh lock, taken after the stale one was broken, puts it back.
+ */
+async function breakStaleLock(lockPath: string, staleLockAge: number): Promise<void> {
+  const moved = `${lockPath}.${process.pid}.${randomBytes(6).toString('hex')}.stale`;
+  try {
+    await fs.rename(lockPath, moved);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+
+  const stat = await fs.stat(moved);
+  if (Date.now() - stat.mtimeMs <= staleLockAge) {
+    // link fails rather than replacing a lock created since the rename
+    await fs.link(moved, lockPath).catch(() => undefined);
+  }
+  await fs.rm(moved, { force: true });
+}
+
+/**
+ * Lists the files in a directory with an extension, or none when the directory does not exist
+ */
+export async function listFiles(directory: string, extension: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(directory)).filter(name => name.endsWith(extension));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
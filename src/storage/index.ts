@@ -0,0 +1,9 @@
+/**
+ * Persistence for playlists and guild queue snapshots
+ */
+
+export { MemoryPlaylistStore } from './MemoryPlaylistStore';
+export { MemoryQueueStore } from './MemoryQueueStore';
+export { FileSystemPlaylistStore } from './FileSystemPlaylistStore';
+export { FileSystemQueueStore } from './FileSystemQueueStore';
+export { verifyPlaylistStore, verifyQueueStore } from './conformance';
@@ -0,0 +1,47 @@
+import { PlaylistStoreQuery, StoredPlaylist } from '../types';
+
+/**
+ * Rejects IDs that cannot key a stored record
+ */
+export function requireStoreId(id: unknown, label: string): string {
+  if (typeof id !== 'string' || id.length === 0) {
+    throw new Error(`${label} must be a non-empty string`);
+  }
+  return id;
+}
+
+/**
+ * Builds the record to store for a playlist, keeping the creation time of the one it replaces
+ */
+export function createStoredPlaylist(
+  playlist: Omit<StoredPlaylist, 'createdAt' | 'updatedAt'>,
+  existing: StoredPlaylist | null
+): StoredPlaylist {
+  requireStoreId(playlist.id, 'Playlist id');
+  requireStoreId(playlist.ownerId, 'Playlist ownerId');
+  if (!playlist.playlist || !Array.isArray(playlist.playlist.tracks)) {
+    throw new Error('Stored playlist must contain a playlist with tracks');
+  }
+
+  const now = Date.now();
+  return cloneRecord({
+    id: playlist.id,
+    ownerId: playlist.ownerId,
+    ...(playlist.guildId !== undefined && { guildId: playlist.guildId }),
+    playlist: playlist.playlist,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+}
+
+export function matchesPlaylistQuery(playlist: StoredPlaylist, query: PlaylistStoreQuery): boolean {
+  return (query.ownerId === undefined || playlist.ownerId === query.ownerId) &&
+    (query.guildId === undefined || playlist.guildId === query.guildId);
+}
+
+/**
+ * Deep copies a JSON-compatible record, the form every store persists
+ */
+export function cloneRecord<T>(record: T): T {
+  return JSON.parse(JSON.stringify(record));
+}
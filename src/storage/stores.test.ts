@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StoreConformanceResult } from '../types';
+import {
+  FileSystemPlaylistStore,
+  FileSystemQueueStore,
+  MemoryPlaylistStore,
+  MemoryQueueStore,
+  verifyPlaylistStore,
+  verifyQueueStore,
+} from '.';
+
+const directories: string[] = [];
+
+async function createTempDir(): Promise<string> {
+  const directory = await fs.mkdtemp(join(tmpdir(), 'lavalink-encoder-store-'));
+  directories.push(directory);
+  return directory;
+}
+
+function failedChecks(result: StoreConformanceResult): string[] {
+  return result.checks.filter(check => !check.passed).map(check => `${check.name}: ${check.error}`);
+}
+
+afterAll(async () => {
+  await Promise.all(directories.map(directory => fs.rm(directory, { recursive: true, force: true })));
+});
+
+describe('playlist stores', () => {
+  it('MemoryPlaylistStore passes the conformance checks', async () => {
+    const result = await verifyPlaylistStore(new MemoryPlaylistStore());
+    expect(failedChecks(result)).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+
+  it('FileSystemPlaylistStore passes the conformance checks', async () => {
+    const result = await verifyPlaylistStore(new FileSystemPlaylistStore(await createTempDir()));
+    expect(failedChecks(result)).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+});
+
+describe('queue stores', () => {
+  it('MemoryQueueStore passes the conformance checks', async () => {
+    const result = await verifyQueueStore(new MemoryQueueStore());
+    expect(failedChecks(result)).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+
+  it('FileSystemQueueStore passes the conformance checks', async () => {
+    const result = await verifyQueueStore(new FileSystemQueueStore(await createTempDir()));
+    expect(failedChecks(result)).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+});
@@ -2,6 +2,10 @@
  * Core types for Lavalink track and playlist encoding
  */
 
+import type { SourceFieldRegistry } from '../codec/SourceFieldRegistry';
+import type { SourceRegistry } from '../sources/SourceRegistry';
+import type { DiscordTrackEncoder } from '../discord/DiscordTrackEncoder';
+
 export interface TrackInfo {
   /** The track identifier */
   identifier: string;
@@ -25,8 +29,74 @@ export interface TrackInfo {
   artworkUrl?: string;
   /** The track ISRC */
   isrc?: string;
+  /** Fields the track's source manager appends to the encoded track */
+  sourceData?: TrackSourceData;
+}
+
+/**
+ * Probe info appended by the HTTP and local sources
+ */
+export interface ProbeSourceData {
+  /** The media container probe name and parameters */
+  probeInfo: string;
+}
+
+/**
+ * Fields appended by LavaSrc sources (Spotify, Apple Music, Deezer, ...)
+ */
+export interface LavaSrcSourceData {
+  albumName: string | null;
+  albumUrl: string | null;
+  artistUrl: string | null;
+  artistArtworkUrl: string | null;
+  previewUrl: string | null;
+  isPreview: boolean;
+}
+
+/**
+ * Fields of a source without a registered codec, kept as base64 so they survive round-trips
+ */
+export interface OpaqueSourceData {
+  raw: string;
+}
+
+export type TrackSourceData = ProbeSourceData | LavaSrcSourceData | OpaqueSourceData;
+
+/**
+ * Lavaplayer track info versions (1 has no URI, 2 adds the URI, 3 adds artwork and ISRC)
+ */
+export type TrackInfoVersion = 1 | 2 | 3;
+
+/**
+ * Formats an encoded track string can be in
+ */
+export type TrackFormat = 'lavaplayer' | 'legacy-json' | 'unknown';
+
+export interface TrackMigrationReport {
+  /** The tracks in input order, re-encoded where migration succeeded */
+  tracks: string[];
+  /** Indices of legacy tracks that were re-encoded */
+  migrated: number[];
+  /** Indices of tracks that were already in the Lavaplayer format */
+  unchanged: number[];
+  /** Tracks that could not be converted and were kept as-is */
+  failed: Array<{ index: number; error: string }>;
 }
 
+/**
+ * Per-index outcome of a batch decode, shaped like `decodeMultipleTracks` results
+ */
+export type BatchDecodeResult =
+  | { success: true; track: TrackInfo }
+  | { success: false; error: string; index: number };
+
+/**
+ * Per-index outcome of a batch encode
+ */
+export type BatchEncodeResult =
+  | { success: true; track: string }
+  | { success: false; error: string; index: number };
+
 export interface Track {
   /** The encoded track string */
   track: string;
@@ -80,6 +150,391 @@ export interface SearchResult {
   };
 }
 
+/**
+ * Lavalink REST API versions the result helpers can emit
+ */
+export type LavalinkApiVersion = 3 | 4;
+
+export interface LavalinkTrackV4 {
+  /** The encoded track string */
+  encoded: string;
+  /** The track info */
+  info: TrackInfo;
+  /** Additional info from Lavalink plugins */
+  pluginInfo: Record<string, any>;
+  /** Custom data attached by the client, echoed back by Lavalink */
+  userData: Record<string, any>;
+}
+
+export interface LavalinkPlaylistV4 {
+  /** The playlist info */
+  info: PlaylistInfo;
+  /** The playlist plugin info */
+  pluginInfo: Record<string, any>;
+  /** The playlist tracks */
+  tracks: LavalinkTrackV4[];
+}
+
+export interface LoadExceptionV4 {
+  /** The exception message */
+  message: string | null;
+  /** The exception severity */
+  severity: 'common' | 'suspicious' | 'fault';
+  /** The cause of the exception */
+  cause: string;
+}
+
+/**
+ * Lavalink v4 `/loadtracks` response
+ */
+export type LoadResultV4 =
+  | { loadType: 'track'; data: LavalinkTrackV4 }
+  | { loadType: 'playlist'; data: LavalinkPlaylistV4 }
+  | { loadType: 'search'; data: LavalinkTrackV4[] }
+  | { loadType: 'empty'; data: Record<string, never> }
+  | { loadType: 'error'; data: LoadExceptionV4 };
+
+/**
+ * Unit of the durations a source's factories accept
+ */
+export type DurationUnit = 'seconds' | 'milliseconds';
+
+/**
+ * Describes a track source for the source registry
+ */
+export interface SourceDefinition {
+  /** The Lavalink source name (`TrackInfo.sourceName`) */
+  name: string;
+  /** Builds a track URI from its identifier */
+  buildUri(identifier: string, track: { title: string; author: string }): string;
+  /** Patterns matching URLs that belong to this source */
+  urlPatterns: RegExp[];
+  /** Checks whether an identifier is valid for this source */
+  validateIdentifier?(identifier: string): boolean;
+  /** Unit of the durations passed to this source's factories */
+  durationUnit: DurationUnit;
+}
+
+/**
+ * Basic track data accepted by the source factories
+ */
+export interface SourceTrackData {
+  identifier: string;
+  title: string;
+  author: string;
+  /** Duration in the source's duration unit */
+  duration: number;
+}
+
+/**
+ * What a music URL points at
+ */
+export type MusicUrlKind = 'track' | 'playlist' | 'album' | 'artist';
+
+/**
+ * A music URL resolved by `parseMusicUrl`.
+ * `startTime` is in milliseconds, ready for `TrackInfo.position`.
+ */
+export type ParsedMusicUrl =
+  | {
+      source: 'youtube';
+      kind: 'track';
+      id: string;
+      startTime?: number;
+      /** Playlist the video was opened from (`list=`) */
+      playlistId?: string;
+    }
+  | { source: 'youtube'; kind: 'playlist' | 'album' | 'artist'; id: string }
+  | { source: 'spotify'; kind: 'track'; id: string; startTime?: number }
+  | { source: 'spotify'; kind: 'playlist' | 'album' | 'artist'; id: string }
+  | { source: 'soundcloud'; kind: 'track'; id: string; startTime?: number }
+  | { source: 'soundcloud'; kind: 'playlist' | 'artist'; id: string };
+
+/**
+ * Lavalink and LavaSrc search prefixes
+ */
+export type SearchPrefix =
+  | 'ytsearch'
+  | 'ytmsearch'
+  | 'scsearch'
+  | 'spsearch'
+  | 'amsearch'
+  | 'dzsearch'
+  | 'dzisrc'
+  | 'ytrec';
+
+/**
+ * A load identifier classified as a URL, a prefixed search or a plain query
+ */
+export type ParsedSearchQuery =
+  | { type: 'url'; url: string; source: string }
+  | { type: 'search'; prefix: SearchPrefix; source: string; query: string }
+  | { type: 'plain'; query: string };
+
+/**
+ * A candidate track scored against a source track by the matcher
+ */
+export interface TrackMatch {
+  track: LavalinkTrack;
+  /** Overall score from 0 (no match) to 1 (certain match) */
+  score: number;
+  breakdown: {
+    /** Both tracks carry the same ISRC */
+    isrc: boolean;
+    /** Title similarity from 0 to 1 */
+    title: number;
+    /** Author similarity from 0 to 1 */
+    author: number;
+    /** Duration closeness from 0 to 1 */
+    duration: number;
+    /** Absolute duration difference in milliseconds, or null when either length is unknown */
+    durationDifference: number | null;
+  };
+  /** Human-readable reasons behind the score */
+  reasons: string[];
+}
+
+/**
+ * A track title split into its song title and credited artists
+ */
+export interface ParsedTrackTitle {
+  /** Song title without decorations, "Artist - " prefix or featured artists */
+  title: string;
+  /** Main artists, from an "Artist - Title" prefix or else the author */
+  artists: string[];
+  /** Artists credited with "feat."/"ft." in the title */
+  featured: string[];
+}
+
+/**
+ * The parts of an International Standard Recording Code
+ */
+export interface ParsedIsrc {
+  /** Normalized 12-character ISRC */
+  isrc: string;
+  countryCode: string;
+  registrantCode: string;
+  /** Last two digits of the reference year */
+  year: string;
+  designationCode: string;
+}
+
+/**
+ * How `TrackEncoder` handles ISRCs when validating: both repair hyphenated or
+ * lower-case forms; malformed ones are dropped by `'repair'` and throw with `'reject'`
+ */
+export type IsrcPolicy = 'repair' | 'reject';
+
+export interface TrackDedupeOptions {
+  /** Duration difference in milliseconds still treated as the same recording when falling back to titles */
+  durationTolerance?: number;
+}
+
+/**
+ * How playlist deduplication decides two tracks are the same:
+ * - `encoded`: identical encoded strings
+ * - `identifier`: same `sourceName` and `identifier`
+ * - `uri`: same URI
+ * - `isrc`: same normalized ISRC
+ * - `fuzzy`: same normalized title, a shared artist and durations within the tolerance
+ */
+export type DedupeStrategy = 'encoded' | 'identifier' | 'uri' | 'isrc' | 'fuzzy';
+
+export interface PlaylistDedupeOptions extends TrackDedupeOptions {
+  /** Identity strategy, or several where any match counts as a duplicate (default: `'identifier'`) */
+  strategy?: DedupeStrategy | DedupeStrategy[];
+  /** Which copy of a duplicated track survives (default: `'first'`) */
+  keep?: 'first' | 'last';
+}
+
+export interface PlaylistDedupeResult {
+  /** The playlist without duplicates, with `selectedTrack` pointing at the same song */
+  playlist: LavalinkPlaylist;
+  /** Dropped tracks with their original index and the original index of the copy that was kept */
+  removed: Array<{
+    index: number;
+    track: LavalinkTrack;
+    duplicateOf: number;
+    strategy: DedupeStrategy;
+  }>;
+}
+
+/**
+ * Playlist file formats for import and export
+ */
+export type PlaylistFileFormat = 'm3u' | 'pls' | 'xspf' | 'jspf' | 'csv';
+
+/**
+ * An entry as read from a playlist file, before it is mapped to a track
+ */
+export interface PlaylistFileEntry {
+  /** URL or file path of the entry */
+  location?: string;
+  title?: string;
+  author?: string;
+  /** Duration in milliseconds, or -1 for a stream */
+  duration?: number;
+  artworkUrl?: string;
+  /** Identifier stored in the file; otherwise taken from the location */
+  identifier?: string;
+  /** Source stored in the file; otherwise detected from the location */
+  sourceName?: string;
+  isrc?: string;
+}
+
+/**
+ * `TrackInfo` fields that can be CSV columns
+ */
+export type CsvField =
+  | 'identifier'
+  | 'title'
+  | 'author'
+  | 'length'
+  | 'uri'
+  | 'sourceName'
+  | 'isrc'
+  | 'artworkUrl'
+  | 'isStream';
+
+export interface CsvColumn {
+  field: CsvField;
+  /** Header cell of the column */
+  header: string;
+}
+
+export interface CsvOptions {
+  /** Columns in order, as fields (headed by the field name) or with a header (default: Title, Author, Duration, URL, Source, ISRC) */
+  columns?: Array<CsvField | CsvColumn>;
+  /** Cell delimiter (default: ',') */
+  delimiter?: string;
+  /** Whether the first row holds headers (default: true) */
+  header?: boolean;
+  /** How `length` is written: milliseconds or `formatDuration` style (default: 'ms') */
+  durationFormat?: 'ms' | 'formatted';
+  /**
+   * Whether text cells starting with `=`, `+`, `-`, `@`, a tab or a carriage return are
+   * written with a leading `'`, so spreadsheets show them as text instead of running them
+   * as formulas; the `'` is removed again on import (default: true)
+   */
+  escapeFormulas?: boolean;
+}
+
+export interface PlaylistImportOptions {
+  /** Registry used to detect each entry's source (default: the built-in sources) */
+  sources?: SourceRegistry;
+  /** Source assigned to entries no source recognizes, e.g. 'http'; without it they are unmapped */
+  fallbackSource?: string;
+}
+
+/**
+ * Tracks read from a playlist file, with the entries that could not be mapped
+ */
+export interface PlaylistImportResult {
+  /** Playlist name stored in the file, if any */
+  name?: string;
+  tracks: TrackInfo[];
+  unmapped: UnmappedPlaylistEntry[];
+}
+
+export interface UnmappedPlaylistEntry {
+  /** Position of the entry in the file */
+  index: number;
+  entry: PlaylistFileEntry;
+  reason: string;
+}
+
+export interface PlaylistFileImportOptions extends PlaylistImportOptions {
+  /** Format of the file (default: detected from its content; CSV is never detected) */
+  format?: PlaylistFileFormat;
+  /** Column and delimiter settings for CSV files */
+  csv?: CsvOptions;
+  /** Playlist name when the file has none (default: 'Imported Playlist') */
+  name?: string;
+}
+
+/**
+ * What a share code stores: the encoded tracks, or only each track's source and
+ * identifier so the receiver resolves them again
+ */
+export type ShareCodeMode = 'full' | 'reference';
+
+export interface TrackReference {
+  sourceName: string;
+  identifier: string;
+}
+
+/**
+ * Playlist data packed into a share code
+ */
+export type ShareCodePayload =
+  | { mode: 'full'; name: string; selectedTrack: number; tracks: string[] }
+  | { mode: 'reference'; name: string; selectedTrack: number; tracks: TrackReference[] };
+
+export interface ShareCodeOptions {
+  /** What to store (default: 'full') */
+  mode?: ShareCodeMode;
+}
+
+/**
+ * A playlist read from a share code. Reference codes hold no encoded tracks; load each
+ * reference through Lavalink to rebuild the playlist.
+ */
+export type SharedPlaylist =
+  | { mode: 'full'; playlist: LavalinkPlaylist }
+  | { mode: 'reference'; name: string; selectedTrack: number; tracks: TrackReference[] };
+
+/**
+ * A playlist imported from a file, with the entries that could not be mapped
+ */
+export interface ImportedPlaylist {
+  playlist: LavalinkPlaylist;
+  unmapped: UnmappedPlaylistEntry[];
+}
+
+/**
+ * Opts a search, filter or comparison utility into title and artist normalization
+ */
+export interface NormalizeOptions {
+  normalize?: boolean;
+}
+
+/**
+ * Seed of a reproducible shuffle
+ */
+export type ShuffleSeed = number | string;
+
+export interface SmartShuffleOptions {
+  /** Seed for a reproducible order (default: random) */
+  seed?: ShuffleSeed;
+  /** What to keep apart: the artist, the source, or a custom key (default: 'author') */
+  spreadBy?: 'author' | 'sourceName' | ((track: LavalinkTrack) => string);
+}
+
+export interface TrackMatchOptions extends NormalizeOptions {
+  /** Duration difference in milliseconds that still counts as a full duration match */
+  durationTolerance?: number;
+  /** Candidates scoring below this are dropped */
+  minScore?: number;
+  /** Relative weights of the title, author and duration scores */
+  weights?: { title?: number; author?: number; duration?: number };
+  /** Maximum number of ranked candidates to return */
+  limit?: number;
+}
+
+export interface SearchQueryBuilderOptions {
+  /** Prefix for plain queries when the guild has no default */
+  defaultPrefix?: SearchPrefix;
+  /** Longest accepted query, in characters */
+  maxLength?: number;
+  /**
+   * Keep prefixes typed by users. When false a typed prefix stays part of the query text,
+   * so `spsearch:foo` is searched as `ytsearch:spsearch:foo` with a `ytsearch` default.
+   */
+  allowUserPrefixes?: boolean;
+  /** Registry used to detect the source of URLs */
+  sources?: SourceRegistry;
+}
+
 export interface EncoderOptions {
   /** Whether to include artwork URLs */
   includeArtwork?: boolean;
@@ -89,8 +544,45 @@ export interface EncoderOptions {
   sourceName?: string;
   /** Whether to validate track data */
   validate?: boolean;
+  /** Lavaplayer track info version to encode with */
+  trackVersion?: TrackInfoVersion;
+  /** Codecs for source-specific fields, keyed by source name */
+  sourceFields?: SourceFieldRegistry;
+  /** Source definitions used by the track and playlist factories */
+  sources?: SourceRegistry;
+  /** How malformed ISRCs are handled when validating */
+  isrcPolicy?: IsrcPolicy;
+  /** Keys for signing tracks and share codes handed to users (default: no signing) */
+  signing?: SigningOptions | null;
+  /** Limits and strict type checks applied when decoding untrusted tracks (default: off) */
+  safeDecoding?: boolean | SafeDecodingOptions;
 }
 
+/**
+ * HMAC keys for signing values that make a round trip through users
+ */
+export interface SigningOptions {
+  /** Secret keys of at least 16 bytes; the first signs and all verify, so put a new key first to rotate */
+  keys: Array<string | Uint8Array>;
+  /** Bytes of the HMAC-SHA256 kept in each signature, from 8 to 32 (default: 16) */
+  signatureLength?: number;
+}
+
+/**
+ * Limits for decoding tracks from untrusted input
+ */
+export interface SafeDecodingOptions {
+  /** Largest encoded track accepted, in bytes after base64 decoding (default: 16384) */
+  maxInputSize?: number;
+  /** Longest string accepted in any track info field, in characters (default: 4096) */
+  maxStringLength?: number;
+}
+
+/**
+ * Which limit or check rejected a track in safe decoding
+ */
+export type TrackDecodeLimit = 'inputSize' | 'stringLength' | 'fieldType';
+
 export interface PlaylistEncoderOptions extends EncoderOptions {
   /** Maximum number of tracks in playlist */
   maxTracks?: number;
@@ -114,9 +606,189 @@ export interface DiscordTrackInfo extends TrackInfo {
 export interface DiscordTrack extends Track {
   /** The track info with Discord-specific data */
   info: DiscordTrackInfo;
+  /** Lavalink v4 user data carrying the Discord context */
+  userData?: Record<string, any>;
+}
+
+/**
+ * Discord context of a requested track
+ */
+export interface DiscordContext {
+  /** Discord user who requested the track */
+  requester?: {
+    id: string;
+    username: string;
+    discriminator?: string;
+  };
+  /** Discord guild ID */
+  guildId?: string;
+  /** Discord channel ID */
+  channelId?: string;
+}
+
+/**
+ * Where the Discord encoder keeps a track's Discord context:
+ * - `memory`: only on the in-memory track info
+ * - `userData`: also in the track's v4 `userData`
+ * - `envelope`: also in `userData`, and appended to the encoded string so it survives on its own
+ */
+export type DiscordContextStorage = 'memory' | 'userData' | 'envelope';
+
+export interface DiscordEncoderOptions extends PlaylistEncoderOptions {
+  /** Where to keep the Discord context (default: 'memory') */
+  contextStorage?: DiscordContextStorage;
+}
+
+/**
+ * How a guild queue repeats: not at all, the current track, or the whole queue
+ */
+export type LoopMode = 'off' | 'track' | 'queue';
+
+/**
+ * Order of a guild queue's upcoming tracks:
+ * - `fifo`: in the order they were added
+ * - `fair`: round-robin by requester, re-balanced on every insert and removal
+ */
+export type QueueOrdering = 'fifo' | 'fair';
+
+export interface GuildQueueOptions {
+  /** Initial loop mode (default: 'off') */
+  loopMode?: LoopMode;
+  /** Initial ordering of upcoming tracks (default: 'fifo') */
+  ordering?: QueueOrdering;
+  /** Encoder used to resolve requesters for fair ordering (default: a new `DiscordTrackEncoder`) */
+  encoder?: DiscordTrackEncoder;
+  /** Number of played tracks kept for `previous()` (default: 50) */
+  maxHistory?: number;
+  /** Maximum number of upcoming tracks, or 0 for no limit (default: 0) */
+  maxSize?: number;
+}
+
+/**
+ * A queued track in a snapshot: its Lavaplayer string and v4 `userData`, which carries
+ * the Discord context under `discord`
+ */
+export interface QueueSnapshotTrack {
+  encoded: string;
+  userData?: Record<string, any>;
+}
+
+/**
+ * Serializable state of a guild queue, versioned so older snapshots can be migrated
+ */
+export interface QueueSnapshot {
+  /** Snapshot schema version */
+  version: number;
+  guildId: string;
+  /** Queued tracks; tracks before `currentIndex` count as played when restoring */
+  tracks: QueueSnapshotTrack[];
+  /** Index of the current track in `tracks`, or -1 when nothing is playing */
+  currentIndex: number;
+  loopMode: LoopMode;
+  ordering: QueueOrdering;
+  /** Playback position of the current track in milliseconds */
+  position: number;
+  /** Played tracks, most recent last */
+  history: QueueSnapshotTrack[];
+  /** When the snapshot was taken, in milliseconds since the epoch */
+  createdAt: number;
+}
+
+/**
+ * Events emitted by a guild queue, with their listener arguments
+ */
+export interface GuildQueueEvents {
+  /** Tracks were inserted into the upcoming tracks at the given index */
+  add: [tracks: DiscordTrack[], index: number];
+  /** Upcoming tracks were removed */
+  remove: [tracks: DiscordTrack[]];
+  /** An upcoming track moved between indices */
+  move: [from: number, to: number];
+  /** Two upcoming tracks swapped places */
+  swap: [first: number, second: number];
+  /** The current track changed */
+  trackChange: [current: DiscordTrack | null, previous: DiscordTrack | null];
+  loopModeChange: [mode: LoopMode];
+  orderingChange: [ordering: QueueOrdering];
+  /** Fair ordering re-arranged the upcoming tracks */
+  reorder: [tracks: DiscordTrack[]];
+  /** All upcoming tracks were cleared */
+  clear: [tracks: DiscordTrack[]];
+  /** Emitted after every change to the queue */
+  change: [];
 }
 
 export interface DiscordPlaylist extends Playlist {
   /** The playlist tracks with Discord-specific data */
   tracks: DiscordTrack[];
 }
+
+/**
+ * A saved playlist with its owner and, for guild playlists, its guild
+ */
+export interface StoredPlaylist {
+  id: string;
+  /** ID of the Discord user who owns the playlist */
+  ownerId: string;
+  /** ID of the guild the playlist belongs to, if any */
+  guildId?: string;
+  playlist: LavalinkPlaylist;
+  /** When the playlist was first stored, in milliseconds since the epoch */
+  createdAt: number;
+  /** When the playlist was last stored, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * Filter for listing stored playlists; all given fields must match
+ */
+export interface PlaylistStoreQuery {
+  ownerId?: string;
+  guildId?: string;
+}
+
+/**
+ * Persistence contract for saved playlists. Implementations return copies, so
+ * changing a returned playlist does not change the stored one.
+ */
+export interface PlaylistStore {
+  get(id: string): Promise<StoredPlaylist | null>;
+  /** Stores a playlist, keeping `createdAt` when replacing one, and returns the stored record */
+  put(playlist: Omit<StoredPlaylist, 'createdAt' | 'updatedAt'>): Promise<StoredPlaylist>;
+  /** Lists stored playlists sorted by ID */
+  list(query?: PlaylistStoreQuery): Promise<StoredPlaylist[]>;
+  /** Deletes a playlist and returns whether it existed */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Persistence contract for guild queue snapshots, one per guild
+ */
+export interface QueueStore {
+  get(guildId: string): Promise<QueueSnapshot | null>;
+  /** Stores a snapshot under its `guildId`, replacing the previous one */
+  put(snapshot: QueueSnapshot): Promise<void>;
+  /** Lists the IDs of guilds with a stored snapshot, sorted */
+  list(): Promise<string[]>;
+  /** Deletes a guild's snapshot and returns whether it existed */
+  delete(guildId: string): Promise<boolean>;
+}
+
+export interface FileStoreOptions {
+  /** Milliseconds to wait for a file lock before failing (default: 5000) */
+  lockTimeout?: number;
+  /** Age in milliseconds after which a left-over lock is broken (default: 30000) */
+  staleLockAge?: number;
+}
+
+/**
+ * Outcome of running the store conformance checks against an implementation
+ */
+export interface StoreConformanceResult {
+  passed: boolean;
+  checks: Array<{
+    name: string;
+    passed: boolean;
+    error?: string;
+  }>;
+}
@@ -2,7 +2,27 @@
  * Utility functions for Lavalink track and playlist encoding
  */
 
-import { TrackInfo, LavalinkTrack, LavalinkPlaylist, SearchResult } from '../types';
+import {
+  TrackInfo,
+  LavalinkTrack,
+  LavalinkPlaylist,
+  SearchResult,
+  LoadResultV4,
+  LavalinkApiVersion,
+  NormalizeOptions,
+} from '../types';
+import { toV4LoadResult, toV4Playlist } from './lavalinkV4';
+import { SourceRegistry, defaultSourceRegistry } from '../sources';
+import { parseSearchQuery } from '../search';
+import { normalizeTitle, normalizeArtist, getTrackArtistKeys } from './normalize';
+import { parseMusicUrl } from './url';
+
+export * from './lavalinkV4';
+export * from './url';
+export * from './matching';
+export * from './normalize';
+export * from './isrc';
+export * from './shuffle';
 
 /**
  * Formats duration from milliseconds to human-readable string
@@ -56,86 +76,98 @@ export function isValidUrl(url: string): boolean {
  * Extracts video ID from YouTube URL
  */
 export function extractYouTubeVideoId(url: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /youtube\.com\/v\/([^&\n?#]+)/,
-  ];
-
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) {
-      return match[1];
-    }
-  }
-
-  return null;
+  return extractTrackId(url, 'youtube');
 }
 
 /**
  * Extracts track ID from Spotify URL
  */
 export function extractSpotifyTrackId(url: string): string | null {
-  const pattern = /spotify\.com\/track\/([a-zA-Z0-9]+)/;
-  const match = url.match(pattern);
-  return match ? match[1] : null;
+  return extractTrackId(url, 'spotify');
 }
 
 /**
  * Extracts track ID from SoundCloud URL
  */
 export function extractSoundCloudTrackId(url: string): string | null {
-  const pattern = /soundcloud\.com\/([^\/]+)\/([^\/\?]+)/;
-  const match = url.match(pattern);
-  return match ? `${match[1]}/${match[2]}` : null;
+  return extractTrackId(url, 'soundcloud');
+}
+
+function extractTrackId(url: string, source: string): string | null {
+  const parsed = parseMusicUrl(url);
+  return parsed?.source === source && parsed.kind === 'track' ? parsed.id : null;
 }
 
 /**
- * Detects the source of a track from its URI
+ * Detects the source of a track from its URI using the source registry.
+ * Search identifiers such as `scsearch:query` resolve to the source their prefix searches.
  */
-export function detectTrackSource(uri: string): string {
-  if (uri.includes('youtube.com') || uri.includes('youtu.be')) {
-    return 'youtube';
-  } else if (uri.includes('spotify.com')) {
-    return 'spotify';
-  } else if (uri.includes('soundcloud.com')) {
-    return 'soundcloud';
-  } else if (uri.includes('twitch.tv')) {
-    return 'twitch';
-  } else if (uri.includes('bandcamp.com')) {
-    return 'bandcamp';
-  } else {
-    return 'unknown';
+export function detectTrackSource(
+  uri: string,
+  registry: SourceRegistry = defaultSourceRegistry
+): string {
+  const parsed = parseSearchQuery(uri, registry);
+  if (parsed.type === 'search') {
+    return parsed.source;
   }
+  return registry.detect(uri) ?? 'unknown';
 }
 
 /**
- * Creates a search result from tracks
+ * Creates a search result from tracks, as a v3 search result or a v4 load result
  */
+export function createSearchResult(
+  tracks: LavalinkTrack[],
+  loadType?: SearchResult['loadType'],
+  playlistInfo?: { name: string; selectedTrack: number },
+  version?: 3
+): SearchResult;
+export function createSearchResult(
+  tracks: LavalinkTrack[],
+  loadType: SearchResult['loadType'],
+  playlistInfo: { name: string; selectedTrack: number } | undefined,
+  version: 4
+): LoadResultV4;
 export function createSearchResult(
   tracks: LavalinkTrack[],
   loadType: SearchResult['loadType'] = 'SEARCH_RESULT',
-  playlistInfo?: { name: string; selectedTrack: number }
-): SearchResult {
-  return {
+  playlistInfo?: { name: string; selectedTrack: number },
+  version: LavalinkApiVersion = 3
+): SearchResult | LoadResultV4 {
+  const result: SearchResult = {
     loadType,
     tracks,
     ...(playlistInfo && { playlistInfo }),
   };
+  return version === 4 ? toV4LoadResult(result) : result;
 }
 
 /**
  * Creates a search result for a single track
  */
-export function createTrackSearchResult(track: LavalinkTrack): SearchResult {
-  return createSearchResult([track], 'TRACK_LOADED');
+export function createTrackSearchResult(track: LavalinkTrack, version?: 3): SearchResult;
+export function createTrackSearchResult(track: LavalinkTrack, version: 4): LoadResultV4;
+export function createTrackSearchResult(
+  track: LavalinkTrack,
+  version: LavalinkApiVersion = 3
+): SearchResult | LoadResultV4 {
+  const result = createSearchResult([track], 'TRACK_LOADED');
+  return version === 4 ? toV4LoadResult(result) : result;
 }
 
 /**
  * Creates a search result for a playlist
  */
+export function createPlaylistSearchResult(playlist: LavalinkPlaylist, version?: 3): SearchResult;
+export function createPlaylistSearchResult(playlist: LavalinkPlaylist, version: 4): LoadResultV4;
 export function createPlaylistSearchResult(
-  playlist: LavalinkPlaylist
-): SearchResult {
+  playlist: LavalinkPlaylist,
+  version: LavalinkApiVersion = 3
+): SearchResult | LoadResultV4 {
+  if (version === 4) {
+    // Built from the playlist directly so its plugin info is kept
+    return { loadType: 'playlist', data: toV4Playlist(playlist) };
+  }
   return createSearchResult(
     playlist.tracks,
     'PLAYLIST_LOADED',
@@ -146,8 +178,11 @@ export function createPlaylistSearchResult(
 /**
  * Creates a no matches search result
  */
-export function createNoMatchesResult(): SearchResult {
-  return createSearchResult([], 'NO_MATCHES');
+export function createNoMatchesResult(version?: 3): SearchResult;
+export function createNoMatchesResult(version: 4): LoadResultV4;
+export function createNoMatchesResult(version: LavalinkApiVersion = 3): SearchResult | LoadResultV4 {
+  const result = createSearchResult([], 'NO_MATCHES');
+  return version === 4 ? toV4LoadResult(result) : result;
 }
 
 /**
@@ -155,13 +190,25 @@ export function createNoMatchesResult(): SearchResult {
  */
 export function createLoadFailedResult(
   message: string,
-  severity: 'COMMON' | 'SUSPICIOUS' | 'FAULT' = 'COMMON'
-): SearchResult {
-  return {
+  severity?: 'COMMON' | 'SUSPICIOUS' | 'FAULT',
+  version?: 3
+): SearchResult;
+export function createLoadFailedResult(
+  message: string,
+  severity: 'COMMON' | 'SUSPICIOUS' | 'FAULT',
+  version: 4
+): LoadResultV4;
+export function createLoadFailedResult(
+  message: string,
+  severity: 'COMMON' | 'SUSPICIOUS' | 'FAULT' = 'COMMON',
+  version: LavalinkApiVersion = 3
+): SearchResult | LoadResultV4 {
+  const result: SearchResult = {
     loadType: 'LOAD_FAILED',
     tracks: [],
     exception: { message, severity },
   };
+  return version === 4 ? toV4LoadResult(result) : result;
 }
 
 /**
@@ -241,24 +288,40 @@ export function filterTracksByDuration(
 }
 
 /**
- * Filters tracks by author
+ * Filters tracks by author. With `normalize`, matches any credited artist, including
+ * "Artist - Title" prefixes, featured artists and "- Topic"/VEVO channels.
  */
 export function filterTracksByAuthor(
   tracks: LavalinkTrack[],
-  author: string
+  author: string,
+  options: NormalizeOptions = {}
 ): LavalinkTrack[] {
+  if (options.normalize) {
+    const key = normalizeArtist(author);
+    return tracks.filter(track =>
+      getTrackArtistKeys(track.info.title, track.info.author).some(artist => artist.includes(key))
+    );
+  }
+
   return tracks.filter(track => 
     track.info.author.toLowerCase().includes(author.toLowerCase())
   );
 }
 
 /**
- * Searches tracks by title
+ * Searches tracks by title. With `normalize`, decorations such as "(Official Video)"
+ * and "Artist - " prefixes are ignored on both sides.
  */
 export function searchTracksByTitle(
   tracks: LavalinkTrack[],
-  query: string
+  query: string,
+  options: NormalizeOptions = {}
 ): LavalinkTrack[] {
+  if (options.normalize) {
+    const normalizedQuery = normalizeTitle(query);
+    return tracks.filter(track => normalizeTitle(track.info.title).includes(normalizedQuery));
+  }
+
   const lowerQuery = query.toLowerCase();
   return tracks.filter(track => 
     track.info.title.toLowerCase().includes(lowerQuery)
@@ -438,14 +501,6 @@ export function extractTrackMetadata(track: any): {
   };
 }
 
-/**
- * Compares two decoded tracks for equality
- */
-export function compareTracks(track1: any, track2: any): boolean {
-  const fields = ['identifier', 'title', 'author', 'length', 'uri', 'sourceName'];
-  return fields.every(field => track1[field] === track2[field]);
-}
-
 /**
  * Finds tracks by criteria in decoded track array
  */
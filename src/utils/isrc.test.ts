@@ -0,0 +1,121 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { DiscordTrackEncoder } from '../discord/DiscordTrackEncoder';
+import { TrackEncoder } from '../encoders/TrackEncoder';
+import { dedupeTracksByIsrc, formatIsrc, isValidIsrc, normalizeIsrc, parseIsrc } from './isrc';
+
+describe('parseIsrc', () => {
+  it('splits an ISRC into its parts', () => {
+    expect(parseIsrc('USUM71200001')).toEqual({
+      isrc: 'USUM71200001',
+      countryCode: 'US',
+      registrantCode: 'UM7',
+      year: '12',
+      designationCode: '00001',
+    });
+  });
+
+  it('accepts hyphenated, spaced, lower-case and labelled forms', () => {
+    for (const value of ['US-UM7-12-00001', ' us um7 12 00001 ', 'ISRC: USUM71200001', 'isrc US-UM7-12-00001']) {
+      expect(normalizeIsrc(value)).toBe('USUM71200001');
+    }
+  });
+
+  it('checks the structure of every part', () => {
+    expect(isValidIsrc('GBAYE6800011')).toBe(true);
+    expect(isValidIsrc('1SUM71200001')).toBe(false); // country code must be letters
+    expect(isValidIsrc('US_M71200001')).toBe(false); // registrant must be alphanumeric
+    expect(isValidIsrc('USUM7A200001')).toBe(false); // year must be digits
+    expect(isValidIsrc('USUM712A0001')).toBe(false); // designation must be digits
+    expect(isValidIsrc('USUM7120001')).toBe(false);
+    expect(isValidIsrc('USUM712000011')).toBe(false);
+    expect(normalizeIsrc(undefined)).toBeNull();
+    expect(normalizeIsrc('')).toBeNull();
+  });
+
+  it('formats the hyphenated display form', () => {
+    expect(formatIsrc('usum71200001')).toBe('US-UM7-12-00001');
+    expect(formatIsrc('nope')).toBeNull();
+  });
+});
+
+describe('isrcPolicy', () => {
+  it('stores a repairable ISRC in its normalized form', () => {
+    const encoder = new TrackEncoder();
+    const { track, info } = encoder.encodeTrack(trackInfo({ isrc: 'us-um7-12-00001' }));
+
+    expect(info.isrc).toBe('USUM71200001');
+    expect(encoder.decodeTrack(track).isrc).toBe('USUM71200001');
+  });
+
+  it('drops a malformed ISRC by default and rejects it with the reject policy', () => {
+    const { track, info } = new TrackEncoder().encodeTrack(trackInfo({ isrc: 'not-an-isrc' }));
+
+    expect(info.isrc).toBeUndefined();
+    expect(new TrackEncoder().decodeTrack(track).isrc).toBeUndefined();
+    expect(() => new TrackEncoder({ isrcPolicy: 'reject' }).encodeTrack(trackInfo({ isrc: 'not-an-isrc' })))
+      .toThrow('Invalid ISRC: not-an-isrc');
+  });
+
+  it('keeps ISRCs as they are when validation is off', () => {
+    const encoder = new TrackEncoder({ validate: false });
+
+    expect(encoder.decodeTrack(encoder.encodeTrack(trackInfo({ isrc: 'not-an-isrc' })).track).isrc).toBe('not-an-isrc');
+  });
+
+  it('reports the encoded ISRC on Discord tracks', () => {
+    const encoder = new DiscordTrackEncoder();
+    const requester = { id: 'user-1', username: 'user' };
+    const repaired = encoder.encodeDiscordTrack(trackInfo({ isrc: 'us-um7-12-00001' }), requester, 'guild-1', 'channel-1');
+    const dropped = encoder.encodeDiscordTrack(trackInfo({ isrc: 'bad' }), requester, 'guild-1', 'channel-1');
+
+    expect(repaired.info.isrc).toBe('USUM71200001');
+    expect(dropped.info.isrc).toBeUndefined();
+    expect(encoder.decodeDiscordTrack(repaired.track).info.isrc).toBe('USUM71200001');
+  });
+});
+
+describe('dedupeTracksByIsrc', () => {
+  const entry = (title: string, overrides: Parameters<typeof trackInfo>[0] = {}) => ({ info: trackInfo({ title, ...overrides }) });
+
+  it('keeps the first track of each ISRC, whatever its form', () => {
+    const tracks = [
+      entry('First', { isrc: 'USUM71200001' }),
+      entry('Other title', { isrc: 'us-um7-12-00001', sourceName: 'spotify' }),
+      entry('Different', { isrc: 'GBAYE6800011' }),
+    ];
+
+    expect(dedupeTracksByIsrc(tracks).map(track => track.info.title)).toEqual(['First', 'Different']);
+  });
+
+  it('falls back to title, a shared artist and duration when a track has no ISRC', () => {
+    const tracks = [
+      entry('Never Gonna Give You Up', { isrc: 'GBARL8700052' }),
+      entry('Never Gonna Give You Up (Official Video)', { author: 'RickAstleyVEVO', length: 213500 }),
+      entry('Never Gonna Give You Up', { author: 'Someone Else' }),
+      entry('Never Gonna Give You Up', { length: 240000 }),
+    ];
+
+    expect(dedupeTracksByIsrc(tracks).map(track => `${track.info.author}/${track.info.length}`)).toEqual([
+      'Rick Astley/212000',
+      'Someone Else/212000',
+      'Rick Astley/240000',
+    ]);
+    expect(dedupeTracksByIsrc(tracks, { durationTolerance: 30000 })).toHaveLength(2);
+  });
+
+  it('keeps tracks with different ISRCs even when the metadata matches', () => {
+    const tracks = [entry('Song', { isrc: 'USUM71200001' }), entry('Song', { isrc: 'USUM71200002' })];
+
+    expect(dedupeTracksByIsrc(tracks)).toHaveLength(2);
+  });
+
+  it('treats later copies with the ISRC of a fallback duplicate as the same recording', () => {
+    const tracks = [
+      entry('Song'),
+      entry('Song', { isrc: 'USUM71200001' }),
+      entry('Song (Remastered)', { isrc: 'USUM71200001', length: 300000 }),
+    ];
+
+    expect(dedupeTracksByIsrc(tracks)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * International Standard Recording Code (ISRC) parsing and ISRC-keyed deduplication
+ */
+
+import { TrackInfo, ParsedIsrc, TrackDedupeOptions } from '../types';
+import { normalizeTitle, getTrackArtistKeys } from './normalize';
+
+/**
+ * Country code (2 letters), registrant code (3 alphanumerics), year (2 digits), designation code (5 digits)
+ */
+const ISRC_PATTERN = /^([A-Z]{2})([A-Z0-9]{3})(\d{2})(\d{5})$/;
+
+/**
+ * Parses an ISRC into its parts, accepting hyphenated, spaced, lower-case and
+ * "ISRC "-labelled forms, or returns null when it is malformed
+ */
+export function parseIsrc(value: string): ParsedIsrc | null {
+  const compact = value.trim().replace(/^isrc:?\s*/i, '').replace(/[-\s]/g, '').toUpperCase();
+  const match = compact.match(ISRC_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    isrc: compact,
+    countryCode: match[1],
+    registrantCode: match[2],
+    year: match[3],
+    designationCode: match[4],
+  };
+}
+
+/**
+ * Checks whether a value is a well-formed ISRC in any accepted form
+ */
+export function isValidIsrc(value: string): boolean {
+  return parseIsrc(value) !== null;
+}
+
+/**
+ * Normalizes an ISRC to its 12-character form, or returns null when it is malformed
+ */
+export function normalizeIsrc(value: string | undefined): string | null {
+  return value ? parseIsrc(value)?.isrc ?? null : null;
+}
+
+/**
+ * Formats an ISRC in its hyphenated display form, `CC-XXX-YY-NNNNN`
+ */
+export function formatIsrc(value: string): string | null {
+  const parsed = parseIsrc(value);
+  return parsed
+    ? `${parsed.countryCode}-${parsed.registrantCode}-${parsed.year}-${parsed.designationCode}`
+    : null;
+}
+
+/**
+ * Collapses the same recording from different sources, keeping the first occurrence.
+ * Tracks are the same recording when their ISRCs match; when either has no ISRC, equal
+ * normalized titles, a shared artist and durations within the tolerance count instead.
+ */
+export function dedupeTracksByIsrc<T extends { info: TrackInfo }>(
+  tracks: T[],
+  options: TrackDedupeOptions = {}
+): T[] {
+  const tolerance = options.durationTolerance ?? 2000;
+  const byIsrc = new Set<string>();
+  const byTitle = new Map<string, Array<{ info: TrackInfo; isrc: string | null; artists: string[] }>>();
+  const kept: T[] = [];
+
+  for (const track of tracks) {
+    const isrc = normalizeIsrc(track.info.isrc);
+    if (isrc && byIsrc.has(isrc)) {
+      continue;
+    }
+
+    const title = normalizeTitle(track.info.title);
+    const artists = getTrackArtistKeys(track.info.title, track.info.author);
+    const sameTitle = byTitle.get(title) ?? [];
+    const duplicate = sameTitle.some(other =>
+      (isrc === null || other.isrc === null) &&
+      other.artists.some(artist => artists.includes(artist)) &&
+      Math.abs(other.info.length - track.info.length) <= tolerance
+    );
+    if (duplicate) {
+      // Later copies carrying this ISRC are the same recording as well
+      if (isrc) {
+        byIsrc.add(isrc);
+      }
+      continue;
+    }
+
+    if (isrc) {
+      byIsrc.add(isrc);
+    }
+    sameTitle.push({ info: track.info, isrc, artists });
+    byTitle.set(title, sameTitle);
+    kept.push(track);
+  }
+
+  return kept;
+}
@@ -0,0 +1,102 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { TrackEncoder } from '../encoders/TrackEncoder';
+import { LoadResultV4, SearchResult } from '../types';
+import { toV3Playlist, toV3SearchResult, toV3Track, toV4LoadResult, toV4Playlist, toV4Track } from './lavalinkV4';
+
+const encoder = new TrackEncoder();
+const track = encoder.encodeTrack(trackInfo());
+const info = track.info;
+
+describe('toV4Track and toV3Track', () => {
+  it('round-trip a track', () => {
+    const v4 = toV4Track(track);
+
+    expect(v4).toEqual({ encoded: track.track, info, pluginInfo: {}, userData: {} });
+    expect(toV3Track(v4)).toEqual(track);
+    expect(encoder.decodeTrack(v4.encoded)).toEqual(info);
+  });
+
+  it('carry plugin info and user data into v4 and drop them going back', () => {
+    const userData = { requester: '123456789012345678' };
+    const pluginInfo = { albumName: 'Whenever You Need Somebody' };
+    const v4 = toV4Track(track, userData, pluginInfo);
+
+    expect(v4.userData).toEqual(userData);
+    expect(v4.pluginInfo).toEqual(pluginInfo);
+    expect(toV3Track(v4)).toEqual(track);
+  });
+});
+
+describe('toV4Playlist and toV3Playlist', () => {
+  it('round-trip a playlist and keep its plugin info', () => {
+    const playlist = {
+      info: { name: 'Favourites', selectedTrack: -1 },
+      pluginInfo: { type: 'playlist' },
+      tracks: [track, track],
+    };
+    const v4 = toV4Playlist(playlist);
+
+    expect(v4.pluginInfo).toEqual({ type: 'playlist' });
+    expect(v4.tracks.map(t => t.encoded)).toEqual([track.track, track.track]);
+    expect(toV3Playlist(v4)).toEqual(playlist);
+  });
+});
+
+describe('toV4LoadResult and toV3SearchResult', () => {
+  const results: SearchResult[] = [
+    { loadType: 'TRACK_LOADED', tracks: [track] },
+    { loadType: 'PLAYLIST_LOADED', playlistInfo: { name: 'Favourites', selectedTrack: 0 }, tracks: [track] },
+    { loadType: 'SEARCH_RESULT', tracks: [track, track] },
+    { loadType: 'NO_MATCHES', tracks: [] },
+    { loadType: 'LOAD_FAILED', tracks: [], exception: { message: 'Video unavailable', severity: 'COMMON' } },
+  ];
+
+  it.each(results.map(result => [result.loadType, result] as const))('round-trips %s', (_, result) => {
+    expect(toV3SearchResult(toV4LoadResult(result))).toEqual(result);
+  });
+
+  it('maps v3 load types to v4', () => {
+    expect(results.map(result => toV4LoadResult(result).loadType)).toEqual([
+      'track',
+      'playlist',
+      'search',
+      'empty',
+      'error',
+    ]);
+  });
+
+  it('treats a track result without tracks as empty', () => {
+    expect(toV4LoadResult({ loadType: 'TRACK_LOADED', tracks: [] })).toEqual({ loadType: 'empty', data: {} });
+  });
+
+  it('fills in a missing playlist info and exception', () => {
+    const playlist = toV4LoadResult({ loadType: 'PLAYLIST_LOADED', tracks: [] });
+    expect(playlist.loadType === 'playlist' && playlist.data.info).toEqual({
+      name: 'Unknown Playlist',
+      selectedTrack: -1,
+    });
+
+    expect(toV4LoadResult({ loadType: 'LOAD_FAILED', tracks: [] })).toEqual({
+      loadType: 'error',
+      data: { message: null, severity: 'common', cause: 'Unknown cause' },
+    });
+  });
+
+  it('uses the cause of a v4 error without a message', () => {
+    const result: LoadResultV4 = {
+      loadType: 'error',
+      data: { message: null, severity: 'fault', cause: 'java.net.SocketTimeoutException' },
+    };
+
+    expect(toV3SearchResult(result).exception).toEqual({
+      message: 'java.net.SocketTimeoutException',
+      severity: 'FAULT',
+    });
+  });
+
+  it('loses v4 user data in a v3 round trip', () => {
+    const result: LoadResultV4 = { loadType: 'track', data: toV4Track(track, { requester: '1' }) };
+
+    expect(toV4LoadResult(toV3SearchResult(result))).toEqual({ loadType: 'track', data: toV4Track(track) });
+  });
+});
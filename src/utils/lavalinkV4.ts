@@ -0,0 +1,125 @@
+/**
+ * Converters between Lavalink v3 and v4 response shapes
+ */
+
+import {
+  LavalinkTrack,
+  LavalinkPlaylist,
+  LavalinkTrackV4,
+  LavalinkPlaylistV4,
+  LoadResultV4,
+  SearchResult,
+} from '../types';
+
+/**
+ * Converts a v3 track to the v4 shape
+ */
+export function toV4Track(
+  track: LavalinkTrack,
+  userData: Record<string, any> = {},
+  pluginInfo: Record<string, any> = {}
+): LavalinkTrackV4 {
+  return {
+    encoded: track.track,
+    info: track.info,
+    pluginInfo,
+    userData,
+  };
+}
+
+/**
+ * Converts a v4 track to the v3 shape, dropping plugin info and user data
+ */
+export function toV3Track(track: LavalinkTrackV4): LavalinkTrack {
+  return {
+    track: track.encoded,
+    info: track.info,
+  };
+}
+
+/**
+ * Converts a v3 playlist to the v4 shape
+ */
+export function toV4Playlist(playlist: LavalinkPlaylist): LavalinkPlaylistV4 {
+  return {
+    info: playlist.info,
+    pluginInfo: playlist.pluginInfo,
+    tracks: playlist.tracks.map(track => toV4Track(track)),
+  };
+}
+
+/**
+ * Converts a v4 playlist to the v3 shape
+ */
+export function toV3Playlist(playlist: LavalinkPlaylistV4): LavalinkPlaylist {
+  return {
+    info: playlist.info,
+    pluginInfo: playlist.pluginInfo,
+    tracks: playlist.tracks.map(toV3Track),
+  };
+}
+
+/**
+ * Converts a v3 search result to a v4 load result
+ */
+export function toV4LoadResult(result: SearchResult): LoadResultV4 {
+  switch (result.loadType) {
+    case 'TRACK_LOADED':
+      return result.tracks.length > 0
+        ? { loadType: 'track', data: toV4Track(result.tracks[0]) }
+        : { loadType: 'empty', data: {} };
+    case 'PLAYLIST_LOADED':
+      return {
+        loadType: 'playlist',
+        data: {
+          info: result.playlistInfo ?? { name: 'Unknown Playlist', selectedTrack: -1 },
+          pluginInfo: {},
+          tracks: result.tracks.map(track => toV4Track(track)),
+        },
+      };
+    case 'SEARCH_RESULT':
+      return { loadType: 'search', data: result.tracks.map(track => toV4Track(track)) };
+    case 'NO_MATCHES':
+      return { loadType: 'empty', data: {} };
+    case 'LOAD_FAILED': {
+      const message = result.exception?.message ?? null;
+      return {
+        loadType: 'error',
+        data: {
+          message,
+          severity: (result.exception?.severity ?? 'COMMON').toLowerCase() as 'common' | 'suspicious' | 'fault',
+          cause: message ?? 'Unknown cause',
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Converts a v4 load result to a v3 search result
+ */
+export function toV3SearchResult(result: LoadResultV4): SearchResult {
+  switch (result.loadType) {
+    case 'track':
+      return { loadType: 'TRACK_LOADED', tracks: [toV3Track(result.data)] };
+    case 'playlist':
+      return {
+        loadType: 'PLAYLIST_LOADED',
+        playlistInfo: result.data.info,
+        tracks: result.data.tracks.map(toV3Track),
+      };
+    case 'search':
+      return { loadType: 'SEARCH_RESULT', tracks: result.data.map(toV3Track) };
+    case 'empty':
+      return { loadType: 'NO_MATCHES', tracks: [] };
+    case 'error':
+      return {
+        loadType: 'LOAD_FAILED',
+        tracks: [],
+        exception: {
+          message: result.data.message ?? result.data.cause,
+          severity: result.data.severity.toUpperCase() as 'COMMON' | 'SUSPICIOUS' | 'FAULT',
+        },
+      };
+  }
+}
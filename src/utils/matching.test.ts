@@ -0,0 +1,110 @@
+import { trackInfo } from '../__fixtures__/tracks';
+import { LavalinkTrack, TrackInfo } from '../types';
+import { compareTracks, findBestMatch, matchTracks, stringSimilarity } from './matching';
+
+const source = trackInfo({ sourceName: 'spotify', identifier: '4uLU6hMCjMI75M1A2tKUQC', uri: 'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC' });
+
+function candidate(identifier: string, overrides: Partial<TrackInfo> = {}): LavalinkTrack {
+  return { track: identifier, info: trackInfo({ identifier, uri: `https://www.youtube.com/watch?v=${identifier}`, ...overrides }) };
+}
+
+function ids(matches: Array<{ track: LavalinkTrack }>): string[] {
+  return matches.map(match => match.track.info.identifier);
+}
+
+describe('matchTracks', () => {
+  it('ranks the official upload above other versions and unrelated tracks', () => {
+    const matches = matchTracks(source, [
+      candidate('unrelated', { title: 'Something Else Entirely', author: 'Another Band', length: 95000 }),
+      candidate('live', { title: 'Never Gonna Give You Up (Live)', length: 230000 }),
+      candidate('official', { title: 'Rick Astley - Never Gonna Give You Up (Official Video)', author: 'RickAstleyVEVO', length: 213000 }),
+    ]);
+
+    expect(ids(matches)).toEqual(['official', 'live', 'unrelated']);
+    expect(matches[1].reasons).toContain('Candidate looks like a live version');
+    expect(matches[2].score).toBeLessThan(0.3);
+  });
+
+  it('scores a shared ISRC or an identical track as certain', () => {
+    const [byIsrc] = matchTracks({ ...source, isrc: 'GBARL8700052' }, [
+      candidate('isrc', { title: 'Different Title', author: 'Uploader', isrc: 'gb-arl-87-00052' }),
+    ]);
+    const [identical] = matchTracks(source, [{ track: 'x', info: source }]);
+
+    expect(byIsrc).toMatchObject({ score: 1, reasons: ['ISRC GBARL8700052 matches'], breakdown: { isrc: true } });
+    expect(identical).toMatchObject({ score: 1, reasons: ['Identical track'] });
+  });
+
+  it('penalizes candidates whose ISRC differs', () => {
+    const withIsrc = { ...source, isrc: 'GBARL8700052' };
+    const [other] = matchTracks(withIsrc, [candidate('other', { isrc: 'USUM71200001' })]);
+    const [unknown] = matchTracks(withIsrc, [candidate('unknown')]);
+
+    expect(other.score).toBeCloseTo(unknown.score * 0.9, 2);
+    expect(other.reasons).toContain('ISRCs differ (GBARL8700052 vs USUM71200001)');
+  });
+
+  it('gives full duration credit within the tolerance and none far outside it', () => {
+    const duration = (length: number, durationTolerance?: number) =>
+      matchTracks(source, [candidate('c', { length })], { durationTolerance })[0].breakdown;
+
+    expect(duration(212000 + 5000)).toMatchObject({ duration: 1, durationDifference: 5000 });
+    expect(duration(212000 + 12500).duration).toBe(0.5);
+    expect(duration(212000 + 20000).duration).toBe(0);
+    expect(duration(212000 + 20000, 20000).duration).toBe(1);
+    expect(duration(0)).toMatchObject({ duration: 0.5, durationDifference: null });
+  });
+
+  it('drops candidates below minScore and applies the limit', () => {
+    const candidates = [
+      candidate('a', { title: 'Never Gonna Give You Up (Official Video)' }),
+      candidate('b', { title: 'Completely Different', author: 'Nobody', length: 30000 }),
+      candidate('c', { title: 'Never Gonna Give You Up (Official Audio)' }),
+    ];
+
+    expect(ids(matchTracks(source, candidates, { minScore: 0.5 }))).toEqual(['a', 'c']);
+    expect(ids(matchTracks(source, candidates, { limit: 1 }))).toEqual(['a']);
+  });
+
+  it('keeps the search order of candidates with equal scores', () => {
+    const candidates = ['first', 'second', 'third'].map(id => candidate(id, { title: 'Never Gonna Give You Up (Lyrics)' }));
+    const matches = matchTracks(source, candidates);
+
+    expect(new Set(matches.map(match => match.score)).size).toBe(1);
+    expect(ids(matches)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('uses the configured weights', () => {
+    const wrongDuration = [candidate('c', { length: 400000 })];
+
+    expect(matchTracks(source, wrongDuration, { weights: { duration: 0 } })[0].score).toBe(1);
+    expect(matchTracks(source, wrongDuration, { weights: { title: 0, author: 0 } })[0].score).toBe(0);
+  });
+});
+
+describe('findBestMatch', () => {
+  it('returns the best candidate at or above 0.6, or null', () => {
+    const good = candidate('good', { title: 'Never Gonna Give You Up (Official Video)' });
+    const poor = candidate('poor', { title: 'Together Forever', length: 200000 });
+
+    expect(findBestMatch(source, [poor, good])?.track.info.identifier).toBe('good');
+    expect(findBestMatch(source, [poor])).toBeNull();
+    expect(findBestMatch(source, [poor], { minScore: 0 })?.track.info.identifier).toBe('poor');
+    expect(findBestMatch(source, [])).toBeNull();
+  });
+});
+
+describe('compareTracks and stringSimilarity', () => {
+  it('compares exact fields, or songs when normalizing', () => {
+    const remaster = { ...source, identifier: 'other', title: 'Never Gonna Give You Up (Remastered 2022)', uri: 'x' };
+
+    expect(compareTracks(source, { ...source })).toBe(true);
+    expect(compareTracks(source, remaster)).toBe(false);
+    expect(compareTracks(source, remaster, { normalize: true })).toBe(true);
+  });
+
+  it('ignores case, accents and punctuation', () => {
+    expect(stringSimilarity('Beyoncé', 'beyonce!')).toBe(1);
+    expect(stringSimilarity('abc', 'xyz')).toBe(0);
+  });
+});
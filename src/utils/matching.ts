@@ -0,0 +1,239 @@
+/**
+ * Track comparison and cross-source matching
+ */
+
+import { TrackInfo, LavalinkTrack, TrackMatch, TrackMatchOptions, NormalizeOptions } from '../types';
+import { normalizeTitle, getTrackArtistKeys } from './normalize';
+import { normalizeIsrc } from './isrc';
+
+const DEFAULT_WEIGHTS = { title: 0.5, author: 0.3, duration: 0.2 };
+
+/**
+ * Title words marking a different version of a song; candidates carrying one the
+ * source title lacks are penalized
+ */
+const VERSION_MARKERS = [
+  'live', 'cover', 'remix', 'karaoke', 'instrumental', 'acoustic', 'nightcore', 'sped up', 'slowed', 'reverb', '8d',
+];
+const VERSION_PENALTY = 0.85;
+const ISRC_MISMATCH_PENALTY = 0.9;
+
+/**
+ * Compares two decoded tracks for equality. With `normalize`, compares the songs instead:
+ * equal normalized titles and at least one shared artist.
+ */
+export function compareTracks(track1: any, track2: any, options: NormalizeOptions = {}): boolean {
+  if (options.normalize) {
+    if (normalizeTitle(track1.title ?? '') !== normalizeTitle(track2.title ?? '')) {
+      return false;
+    }
+    const artists = getTrackArtistKeys(track1.title ?? '', track1.author ?? '');
+    return getTrackArtistKeys(track2.title ?? '', track2.author ?? '').some(artist => artists.includes(artist));
+  }
+
+  const fields = ['identifier', 'title', 'author', 'length', 'uri', 'sourceName'];
+  return fields.every(field => track1[field] === track2[field]);
+}
+
+/**
+ * Similarity of two strings from 0 to 1, ignoring case, accents and punctuation
+ */
+export function stringSimilarity(a: string, b: string): number {
+  return diceCoefficient(normalizeForMatching(a), normalizeForMatching(b));
+}
+
+/**
+ * Ranks candidate tracks, such as search results from a playable source, by how
+ * likely they are to be the same recording as the source track
+ */
+export function matchTracks(
+  source: TrackInfo,
+  candidates: LavalinkTrack[],
+  options: TrackMatchOptions = {}
+): TrackMatch[] {
+  const tolerance = options.durationTolerance ?? 5000;
+  const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  const minScore = options.minScore ?? 0;
+  const normalize = options.normalize ?? false;
+
+  // The sort is stable, so equal scores keep the candidates' search order
+  const matches = candidates
+    .map(track => scoreCandidate(source, track, tolerance, weights, normalize))
+    .filter(match => match.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+
+  return options.limit !== undefined ? matches.slice(0, options.limit) : matches;
+}
+
+/**
+ * Finds the best candidate for a source track, or null when none scores at least
+ * `minScore` (0.6 by default)
+ */
+export function findBestMatch(
+  source: TrackInfo,
+  candidates: LavalinkTrack[],
+  options: TrackMatchOptions = {}
+): TrackMatch | null {
+  return matchTracks(source, candidates, { minScore: 0.6, ...options, limit: 1 })[0] ?? null;
+}
+
+function scoreCandidate(
+  source: TrackInfo,
+  track: LavalinkTrack,
+  tolerance: number,
+  weights: { title: number; author: number; duration: number },
+  normalize: boolean
+): TrackMatch {
+  const candidate = track.info;
+  const sourceIsrc = normalizeIsrc(source.isrc);
+  const candidateIsrc = normalizeIsrc(candidate.isrc);
+  const durationDifference = source.length > 0 && candidate.length > 0
+    ? Math.abs(source.length - candidate.length)
+    : null;
+
+  const breakdown = {
+    isrc: sourceIsrc !== null && sourceIsrc === candidateIsrc,
+    title: round(normalize ? normalizedTitleSimilarity(source, candidate) : titleSimilarity(source, candidate)),
+    author: round(normalize ? normalizedAuthorSimilarity(source, candidate) : authorSimilarity(source, candidate)),
+    duration: round(durationDifference === null ? 0.5 : durationScore(durationDifference, tolerance)),
+    durationDifference,
+  };
+
+  if (compareTracks(source, candidate)) {
+    return { track, score: 1, breakdown, reasons: ['Identical track'] };
+  }
+  if (breakdown.isrc) {
+    return { track, score: 1, breakdown, reasons: [`ISRC ${sourceIsrc} matches`] };
+  }
+
+  const totalWeight = weights.title + weights.author + weights.duration;
+  let score = totalWeight > 0
+    ? (breakdown.title * weights.title + breakdown.author * weights.author + breakdown.duration * weights.duration) /
+      totalWeight
+    : 0;
+
+  const reasons = [
+    `Title similarity ${percent(breakdown.title)}`,
+    `Author similarity ${percent(breakdown.author)}`,
+    durationDifference === null
+      ? 'Duration unknown'
+      : `Duration differs by ${(durationDifference / 1000).toFixed(1)}s`,
+  ];
+
+  if (sourceIsrc !== null && candidateIsrc !== null) {
+    score *= ISRC_MISMATCH_PENALTY;
+    reasons.push(`ISRCs differ (${sourceIsrc} vs ${candidateIsrc})`);
+  }
+
+  const marker = findVersionMarker(source.title, candidate.title);
+  if (marker) {
+    score *= VERSION_PENALTY;
+    reasons.push(`Candidate looks like a ${marker} version`);
+  }
+
+  return { track, score: round(score), breakdown, reasons };
+}
+
+function titleSimilarity(source: TrackInfo, candidate: TrackInfo): number {
+  const title = normalizeForMatching(source.title);
+  const candidateTitle = normalizeForMatching(candidate.title);
+  const author = normalizeForMatching(source.author);
+
+  // Uploads often title themselves "Artist - Title"
+  const withoutAuthor = author
+    ? ` ${candidateTitle} `.replace(` ${author} `, ' ').trim()
+    : candidateTitle;
+
+  return Math.max(diceCoefficient(title, candidateTitle), diceCoefficient(title, withoutAuthor));
+}
+
+function authorSimilarity(source: TrackInfo, candidate: TrackInfo): number {
+  const author = normalizeForMatching(source.author);
+  // YouTube auto-generated and label channels: "Artist - Topic", "ArtistVEVO"
+  const candidateAuthor = normalizeForMatching(
+    candidate.author.replace(/\s*-\s*topic$/i, '').replace(/vevo$/i, '')
+  );
+
+  const direct = diceCoefficient(author.replace(/ /g, ''), candidateAuthor.replace(/ /g, ''));
+  // Re-uploads name the artist in the title instead
+  const inTitle = author && ` ${normalizeForMatching(candidate.title)} `.includes(` ${author} `) ? 0.9 : 0;
+
+  return Math.max(direct, inTitle);
+}
+
+function normalizedTitleSimilarity(source: TrackInfo, candidate: TrackInfo): number {
+  return diceCoefficient(normalizeTitle(source.title), normalizeTitle(candidate.title));
+}
+
+function normalizedAuthorSimilarity(source: TrackInfo, candidate: TrackInfo): number {
+  const artists = getTrackArtistKeys(source.title, source.author);
+  const candidateArtists = getTrackArtistKeys(candidate.title, candidate.author);
+
+  let best = 0;
+  for (const artist of artists) {
+    for (const candidateArtist of candidateArtists) {
+      best = Math.max(best, diceCoefficient(artist, candidateArtist));
+    }
+  }
+  return best;
+}
+
+function durationScore(difference: number, tolerance: number): number {
+  if (difference <= tolerance) {
+    return 1;
+  }
+  return Math.max(0, 1 - (difference - tolerance) / Math.max(tolerance * 3, 1000));
+}
+
+function findVersionMarker(sourceTitle: string, candidateTitle: string): string | null {
+  const source = ` ${normalizeForMatching(sourceTitle)} `;
+  const candidate = ` ${normalizeForMatching(candidateTitle)} `;
+  return VERSION_MARKERS.find(marker => candidate.includes(` ${marker} `) && !source.includes(` ${marker} `)) ?? null;
+}
+
+function normalizeForMatching(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Sørensen-Dice coefficient over character bigrams
+ */
+function diceCoefficient(a: string, b: string): number {
+  if (a === b) {
+    return a ? 1 : 0;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      bigrams.set(bigram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
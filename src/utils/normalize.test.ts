@@ -0,0 +1,85 @@
+import {
+  foldCase,
+  getTrackArtistKeys,
+  normalizeArtist,
+  normalizeTitle,
+  parseArtists,
+  parseTrackTitle,
+  stripTitleDecorations,
+} from './normalize';
+
+describe('foldCase', () => {
+  it('applies NFKC normalization and full case folding', () => {
+    expect(foldCase('ＡＢＣ１２３')).toBe('abc123');
+    expect(foldCase('Straße')).toBe('strasse');
+    expect(foldCase('ΟΔΥΣΣΕΥΣ')).toBe(foldCase('οδυσσευς'));
+    expect(foldCase('ﬁnale')).toBe('finale');
+    expect(foldCase('Café')).toBe('café');
+  });
+});
+
+describe('stripTitleDecorations', () => {
+  it('removes bracketed upload and remaster decorations', () => {
+    expect(stripTitleDecorations('Song (Official Music Video)')).toBe('Song');
+    expect(stripTitleDecorations('Song [4K] [HD]')).toBe('Song');
+    expect(stripTitleDecorations('Song (Remastered 2009)')).toBe('Song');
+    expect(stripTitleDecorations('Song (2011 Remaster)')).toBe('Song');
+    expect(stripTitleDecorations('曲【MV】')).toBe('曲');
+    expect(stripTitleDecorations('Song - Official Video #shorts')).toBe('Song');
+    expect(stripTitleDecorations('Song - Lyrics')).toBe('Song');
+  });
+
+  it('keeps brackets that are part of the song', () => {
+    expect(stripTitleDecorations('Song (Live at Wembley)')).toBe('Song (Live at Wembley)');
+    expect(stripTitleDecorations('Song (Radio Edit)')).toBe('Song (Radio Edit)');
+  });
+});
+
+describe('parseTrackTitle', () => {
+  it('moves featured artists out of the title', () => {
+    expect(parseTrackTitle('Song (feat. B & C)', 'A')).toEqual({ title: 'Song', artists: ['A'], featured: ['B', 'C'] });
+    expect(parseTrackTitle('Song ft. B', 'A')).toEqual({ title: 'Song', artists: ['A'], featured: ['B'] });
+    expect(parseTrackTitle('Song [Featuring B]', 'A')).toEqual({ title: 'Song', artists: ['A'], featured: ['B'] });
+  });
+
+  it('takes the artists of "Artist - Title" uploads from the prefix', () => {
+    expect(parseTrackTitle('A x B - Song (Official Video)', 'Uploader')).toEqual({
+      title: 'Song',
+      artists: ['A', 'B'],
+      featured: [],
+    });
+    expect(parseTrackTitle('- Song', 'A').artists).toEqual(['A']);
+  });
+});
+
+describe('parseArtists', () => {
+  it('splits credits and drops duplicates and channel suffixes', () => {
+    expect(parseArtists('A feat. B, C & D x E')).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(parseArtists('A, a, A - Topic')).toEqual(['A']);
+    expect(parseArtists('ArtistVEVO')).toEqual(['Artist']);
+  });
+});
+
+describe('normalizeTitle and normalizeArtist', () => {
+  it('give the same key to different uploads of a song', () => {
+    const keys = [
+      'Never Gonna Give You Up',
+      'Rick Astley - Never Gonna Give You Up (Official Video) [4K Remaster]',
+      'NEVER GONNA GIVE YOU UP!!',
+      'Never Gonna Give You Up (feat. Nobody)',
+    ].map(normalizeTitle);
+
+    expect(new Set(keys)).toEqual(new Set(['never gonna give you up']));
+  });
+
+  it('merge channel names with the artist', () => {
+    expect(normalizeArtist('Rick Astley - Topic')).toBe('rickastley');
+    expect(normalizeArtist('RickAstleyVEVO')).toBe('rickastley');
+    expect(normalizeArtist('Rick Astley (Official)')).toBe('rickastley');
+    expect(normalizeArtist('Beyoncé')).not.toBe(normalizeArtist('Beyonce'));
+  });
+
+  it('collect every credited artist of a track', () => {
+    expect(getTrackArtistKeys('A - Song (feat. B)', 'C - Topic')).toEqual(['a', 'b', 'c']);
+  });
+});
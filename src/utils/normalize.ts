@@ -0,0 +1,131 @@
+/**
+ * Title and artist normalization for comparing tracks across uploads and sources
+ */
+
+import { ParsedTrackTitle } from '../types';
+
+/**
+ * Bracketed title segments that describe the upload rather than the song
+ */
+const DECORATION_PATTERN =
+  /\b(?:official|video|audio|lyrics?|visuali[sz]er|hd|hq|4k|8k|\d{3,4}p|m\/?v|explicit|clean|remaster(?:ed)?)\b/i;
+const BRACKETED_PATTERN = /\s*(?:\(([^()]*)\)|\[([^\[\]]*)\]|【([^【】]*)】)/g;
+const TRAILING_DECORATION_PATTERN = /\s+[-|]\s+(?:official\b.*|lyrics?(?: video)?|(?:music |lyric )?video|audio)$/i;
+
+const FEATURING = String.raw`(?:feat\.?|ft\.?|featuring)`;
+const BRACKETED_FEATURING_PATTERN = new RegExp(String.raw`\s*[(\[]${FEATURING}\s+([^)\]]+)[)\]]`, 'i');
+const TRAILING_FEATURING_PATTERN = new RegExp(String.raw`\s+${FEATURING}\s+(.+)$`, 'i');
+const ARTIST_SEPARATOR_PATTERN = new RegExp(String.raw`\s*,\s*|\s+(?:${FEATURING}|x|&)\s+`, 'i');
+const TITLE_SEPARATOR_PATTERN = /\s+[-–—]\s+/;
+
+/**
+ * Applies Unicode NFKC normalization and case folding
+ */
+export function foldCase(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    // Full case folding cases that toLowerCase leaves apart
+    .replace(/ß/g, 'ss')
+    .replace(/ς/g, 'σ');
+}
+
+/**
+ * Removes upload decorations such as "(Official Video)", "[4K]" or "- Lyrics" from a title
+ */
+export function stripTitleDecorations(title: string): string {
+  return title
+    .replace(BRACKETED_PATTERN, (segment, round, square, lenticular) =>
+      DECORATION_PATTERN.test(round ?? square ?? lenticular) ? '' : segment
+    )
+    .replace(/\s*#[A-Za-z]\w*/g, '')
+    .replace(TRAILING_DECORATION_PATTERN, '')
+    .trim();
+}
+
+/**
+ * Splits an artist credit such as "A feat. B", "A x B" or "A & B" into its artists
+ */
+export function parseArtists(author: string): string[] {
+  const artists = author
+    .split(ARTIST_SEPARATOR_PATTERN)
+    .map(artist => cleanArtistName(artist))
+    .filter(artist => artist.length > 0);
+
+  return artists.filter((artist, index) =>
+    artists.findIndex(other => foldCase(other) === foldCase(artist)) === index
+  );
+}
+
+/**
+ * Splits a title into song title, main artists and featured artists. "Artist - Title"
+ * uploads take their artists from the prefix; otherwise the author is used.
+ */
+export function parseTrackTitle(title: string, author?: string): ParsedTrackTitle {
+  let songTitle = stripTitleDecorations(title);
+  let artists: string[] = [];
+  const featured: string[] = [];
+
+  const separator = songTitle.match(TITLE_SEPARATOR_PATTERN);
+  if (separator && separator.index !== undefined && separator.index > 0) {
+    artists = parseArtists(songTitle.substring(0, separator.index));
+    songTitle = songTitle.substring(separator.index + separator[0].length);
+  }
+
+  for (const pattern of [BRACKETED_FEATURING_PATTERN, TRAILING_FEATURING_PATTERN]) {
+    const match = songTitle.match(pattern);
+    if (match) {
+      featured.push(...parseArtists(match[1]));
+      songTitle = songTitle.replace(match[0], '');
+    }
+  }
+
+  if (artists.length === 0 && author) {
+    artists = parseArtists(author);
+  }
+
+  return {
+    title: songTitle.trim(),
+    artists: artists.filter(artist => !featured.some(other => foldCase(other) === foldCase(artist))),
+    featured,
+  };
+}
+
+/**
+ * Normalizes a title to a comparison key: decorations, artist prefix and featured
+ * artists removed, case folded and punctuation collapsed
+ */
+export function normalizeTitle(title: string): string {
+  return toComparisonKey(parseTrackTitle(title).title);
+}
+
+/**
+ * Normalizes an author to a comparison key, merging channel names such as
+ * "Artist - Topic" and "ArtistVEVO" with the artist
+ */
+export function normalizeArtist(author: string): string {
+  return toComparisonKey(cleanArtistName(author)).replace(/ /g, '');
+}
+
+/**
+ * Gets the comparison keys of every artist credited on a track, from its author and title
+ */
+export function getTrackArtistKeys(title: string, author: string): string[] {
+  const parsed = parseTrackTitle(title, author);
+  const keys = [...parsed.artists, ...parsed.featured, ...parseArtists(author)].map(normalizeArtist);
+  return keys.filter((key, index) => key.length > 0 && keys.indexOf(key) === index);
+}
+
+function cleanArtistName(author: string): string {
+  return author
+    .replace(/\s*-\s*topic$/i, '')
+    .replace(/\s*vevo$/i, '')
+    .replace(/\s*\(official\)$/i, '')
+    .trim();
+}
+
+function toComparisonKey(value: string): string {
+  return foldCase(value)
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
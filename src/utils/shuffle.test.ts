@@ -0,0 +1,131 @@
+import { LavalinkPlaylist, LavalinkTrack } from '../types';
+import {
+  createSeededRandom,
+  shufflePlaylist,
+  shuffleTracks,
+  smartShufflePlaylist,
+  smartShuffleTracks,
+  unshuffleTracks,
+} from './shuffle';
+
+function track(identifier: string, author = 'Artist', sourceName = 'youtube'): LavalinkTrack {
+  return {
+    track: identifier,
+    info: {
+      identifier,
+      isSeekable: true,
+      author,
+      length: 1000,
+      isStream: false,
+      position: 0,
+      title: identifier,
+      uri: '',
+      sourceName,
+    },
+  };
+}
+
+function numbered(count: number, authorOf: (index: number) => string = () => 'Artist'): LavalinkTrack[] {
+  return Array.from({ length: count }, (_, index) => track(`t${index}`, authorOf(index)));
+}
+
+function ids(tracks: LavalinkTrack[]): string[] {
+  return tracks.map(entry => entry.info.identifier);
+}
+
+function adjacentRepeats(tracks: LavalinkTrack[], keyOf = (entry: LavalinkTrack) => entry.info.author): number {
+  return tracks.filter((entry, index) => index > 0 && keyOf(entry) === keyOf(tracks[index - 1])).length;
+}
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const take = (random: () => number) => Array.from({ length: 5 }, random);
+
+    expect(take(createSeededRandom(42))).toEqual(take(createSeededRandom(42)));
+    expect(take(createSeededRandom('guild-1'))).toEqual(take(createSeededRandom('guild-1')));
+    expect(take(createSeededRandom(42))).not.toEqual(take(createSeededRandom(43)));
+    take(createSeededRandom('x')).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('shuffleTracks', () => {
+  const tracks = numbered(20);
+
+  it('is a permutation that does not change the input', () => {
+    const before = ids(tracks);
+    const shuffled = shuffleTracks(tracks, 'seed');
+
+    expect([...ids(shuffled)].sort()).toEqual([...before].sort());
+    expect(ids(shuffled)).not.toEqual(before);
+    expect(ids(tracks)).toEqual(before);
+  });
+
+  it('is reproducible with a seed and undone by unshuffleTracks', () => {
+    const shuffled = shuffleTracks(tracks, 1234);
+
+    expect(ids(shuffleTracks(tracks, 1234))).toEqual(ids(shuffled));
+    expect(ids(shuffleTracks(tracks, 1235))).not.toEqual(ids(shuffled));
+    expect(ids(unshuffleTracks(shuffled, 1234))).toEqual(ids(tracks));
+  });
+
+  it('handles empty and single-track lists', () => {
+    expect(shuffleTracks([], 1)).toEqual([]);
+    expect(ids(unshuffleTracks(shuffleTracks([track('a')], 1), 1))).toEqual(['a']);
+  });
+
+  it('keeps the selected track selected in a shuffled playlist', () => {
+    const playlist: LavalinkPlaylist = { info: { name: 'P', selectedTrack: 7 }, pluginInfo: {}, tracks };
+    const shuffled = shufflePlaylist(playlist, 'seed');
+
+    expect(shuffled.tracks[shuffled.info.selectedTrack].info.identifier).toBe('t7');
+    expect(shufflePlaylist({ ...playlist, info: { name: 'P', selectedTrack: -1 } }, 1).info.selectedTrack).toBe(-1);
+  });
+});
+
+describe('smartShuffleTracks', () => {
+  it('never puts the same artist side by side when that is possible', () => {
+    const authors = ['A', 'A', 'A', 'A', 'B', 'B', 'B', 'C', 'C', 'D'];
+    for (let seed = 0; seed < 200; seed++) {
+      const shuffled = smartShuffleTracks(numbered(authors.length, index => authors[index]), { seed });
+      expect(adjacentRepeats(shuffled)).toBe(0);
+    }
+  });
+
+  it('treats channel variants of an artist as the same artist', () => {
+    const authors = ['Artist', 'Artist - Topic', 'ArtistVEVO', 'Other', 'Another'];
+    for (let seed = 0; seed < 50; seed++) {
+      const shuffled = smartShuffleTracks(numbered(authors.length, index => authors[index]), { seed });
+      const positions = ['t0', 't1', 't2'].map(id => ids(shuffled).indexOf(id)).sort((a, b) => a - b);
+      expect(positions[1] - positions[0]).toBeGreaterThan(1);
+      expect(positions[2] - positions[1]).toBeGreaterThan(1);
+    }
+  });
+
+  it('spreads by source or a custom key', () => {
+    const tracks = [
+      track('a', 'X', 'youtube'), track('b', 'X', 'youtube'), track('c', 'X', 'spotify'), track('d', 'X', 'spotify'),
+    ];
+    const bySource = smartShuffleTracks(tracks, { seed: 5, spreadBy: 'sourceName' });
+    expect(adjacentRepeats(bySource, entry => entry.info.sourceName)).toBe(0);
+
+    const byParity = smartShuffleTracks(numbered(6), { seed: 5, spreadBy: entry => String(Number(entry.info.identifier.slice(1)) % 2) });
+    expect(adjacentRepeats(byParity, entry => String(Number(entry.info.identifier.slice(1)) % 2))).toBe(0);
+  });
+
+  it('is reproducible with a seed and still returns every track when one artist dominates', () => {
+    const tracks = numbered(10, index => (index < 8 ? 'A' : 'B'));
+    const shuffled = smartShuffleTracks(tracks, { seed: 'x' });
+
+    expect(ids(smartShuffleTracks(tracks, { seed: 'x' }))).toEqual(ids(shuffled));
+    expect([...ids(shuffled)].sort()).toEqual([...ids(tracks)].sort());
+  });
+
+  it('keeps the selected track selected in a smart-shuffled playlist', () => {
+    const tracks = numbered(8, index => `Artist ${index % 3}`);
+    const shuffled = smartShufflePlaylist({ info: { name: 'P', selectedTrack: 3 }, pluginInfo: {}, tracks }, { seed: 9 });
+    expect(shuffled.tracks[shuffled.info.selectedTrack].info.identifier).toBe('t3');
+  });
+});
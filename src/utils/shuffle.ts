@@ -0,0 +1,189 @@
+/**
+ * Seeded and artist-aware shuffling of tracks and playlists
+ */
+
+import { LavalinkTrack, LavalinkPlaylist, ShuffleSeed, SmartShuffleOptions } from '../types';
+import { normalizeArtist } from './normalize';
+
+/**
+ * Spread of a smart-shuffled track around its even position, as a share of its group's spacing
+ */
+const SMART_SHUFFLE_JITTER = 0.1;
+
+/**
+ * Creates a deterministic random number generator returning values in [0, 1), so a
+ * shuffle with the same seed always gives the same order
+ */
+export function createSeededRandom(seed: ShuffleSeed): () => number {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+  // mulberry32
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles tracks with Fisher-Yates. With a seed the order is reproducible and can be
+ * undone with `unshuffleTracks`.
+ */
+export function shuffleTracks<T extends LavalinkTrack>(tracks: T[], seed?: ShuffleSeed): T[] {
+  return shuffledOrder(tracks.length, seed).map(index => tracks[index]);
+}
+
+/**
+ * Restores the original order of tracks shuffled by `shuffleTracks` with the same seed
+ */
+export function unshuffleTracks<T extends LavalinkTrack>(tracks: T[], seed: ShuffleSeed): T[] {
+  const restored = new Array<T>(tracks.length);
+  shuffledOrder(tracks.length, seed).forEach((original, index) => {
+    restored[original] = tracks[index];
+  });
+  return restored;
+}
+
+/**
+ * Shuffles a playlist's tracks with `shuffleTracks`, keeping the selected track selected
+ */
+export function shufflePlaylist(playlist: LavalinkPlaylist, seed?: ShuffleSeed): LavalinkPlaylist {
+  return reorderPlaylist(playlist, shuffledOrder(playlist.tracks.length, seed));
+}
+
+/**
+ * Shuffles tracks while spreading tracks by the same artist (or source) as evenly as
+ * possible: each group's tracks are placed at even intervals across the result, from
+ * a random starting offset and with a little jitter.
+ */
+export function smartShuffleTracks<T extends LavalinkTrack>(tracks: T[], options: SmartShuffleOptions = {}): T[] {
+  return smartShuffledOrder(tracks, options).map(index => tracks[index]);
+}
+
+/**
+ * Smart-shuffles a playlist's tracks with `smartShuffleTracks`, keeping the selected track selected
+ */
+export function smartShufflePlaylist(playlist: LavalinkPlaylist, options: SmartShuffleOptions = {}): LavalinkPlaylist {
+  return reorderPlaylist(playlist, smartShuffledOrder(playlist.tracks, options));
+}
+
+function shuffledOrder(length: number, seed: ShuffleSeed | undefined): number[] {
+  return fisherYates(Array.from({ length }, (_, index) => index), toRandom(seed));
+}
+
+function smartShuffledOrder(tracks: LavalinkTrack[], options: SmartShuffleOptions): number[] {
+  const random = toRandom(options.seed);
+  const spreadBy = options.spreadBy ?? 'author';
+  const keyOf = typeof spreadBy === 'function'
+    ? spreadBy
+    : spreadBy === 'author'
+      // "Artist", "Artist - Topic" and "ArtistVEVO" are spread as one artist
+      ? (track: LavalinkTrack) => normalizeArtist(track.info.author)
+      : (track: LavalinkTrack) => track.info.sourceName;
+
+  const keys = tracks.map(track => keyOf(track));
+  const groups = new Map<string, number[]>();
+  keys.forEach((key, index) => {
+    const group = groups.get(key);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  });
+
+  const placed: Array<{ index: number; position: number }> = [];
+  for (const group of groups.values()) {
+    const spacing = 1 / group.length;
+    const offset = random() * spacing;
+    fisherYates(group, random).forEach((index, slot) => {
+      const jitter = (random() * 2 - 1) * SMART_SHUFFLE_JITTER * spacing;
+      placed.push({ index, position: offset + slot * spacing + jitter });
+    });
+  }
+
+  const order = placed.sort((a, b) => a.position - b.position).map(entry => entry.index);
+
+  // When no group holds more than half the tracks they can all be kept apart
+  const largest = Math.max(0, ...Array.from(groups.values(), group => group.length));
+  return largest <= Math.ceil(tracks.length / 2) ? separateNeighbours(order, keys) : order;
+}
+
+/**
+ * Breaks up neighbours from the same group that even spacing left behind, preferring
+ * moves that do not create new neighbours elsewhere
+ */
+function separateNeighbours(order: number[], keys: string[]): number[] {
+  const keyAt = (position: number) => keys[order[position]];
+
+  for (let i = 1; i < order.length; i++) {
+    const key = keyAt(i);
+    if (key !== keyAt(i - 1)) {
+      continue;
+    }
+
+    // Pull a later track from another group in between
+    let from = -1;
+    for (let j = i + 1; j < order.length; j++) {
+      if (keyAt(j) !== key && (j + 1 === order.length || keyAt(j - 1) !== keyAt(j + 1))) {
+        from = j;
+        break;
+      }
+    }
+    if (from !== -1) {
+      order.splice(i, 0, ...order.splice(from, 1));
+      continue;
+    }
+
+    // Otherwise move this track back to a gap between two other groups
+    let to = keyAt(0) !== key ? 0 : -1;
+    for (let p = 1; to === -1 && p < i - 1; p++) {
+      if (keyAt(p - 1) !== key && keyAt(p) !== key) {
+        to = p;
+      }
+    }
+    if (to !== -1) {
+      order.splice(to, 0, ...order.splice(i, 1));
+      continue;
+    }
+
+    from = order.findIndex((index, position) => position > i && keys[index] !== key);
+    if (from !== -1) {
+      order.splice(i, 0, ...order.splice(from, 1));
+    }
+  }
+  return order;
+}
+
+function fisherYates<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function reorderPlaylist(playlist: LavalinkPlaylist, order: number[]): LavalinkPlaylist {
+  const selected = playlist.info.selectedTrack;
+  return {
+    ...playlist,
+    info: { ...playlist.info, selectedTrack: selected >= 0 ? order.indexOf(selected) : selected },
+    tracks: order.map(index => playlist.tracks[index]),
+  };
+}
+
+function toRandom(seed: ShuffleSeed | undefined): () => number {
+  return seed === undefined ? Math.random : createSeededRandom(seed);
+}
+
+/**
+ * FNV-1a hash of a string seed
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,90 @@
+import { parseMusicUrl, parseTimestamp } from './url';
+
+const VIDEO = 'dQw4w9WgXcQ';
+const SPOTIFY_TRACK = '4uLU6hMCjMI75M1A2tKUQC';
+
+describe('parseMusicUrl', () => {
+  it('reads YouTube video links in their common forms', () => {
+    for (const link of [
+      `https://www.youtube.com/watch?v=${VIDEO}`,
+      `https://m.youtube.com/watch?v=${VIDEO}&feature=share`,
+      `https://music.youtube.com/watch?v=${VIDEO}`,
+      `youtube.com/shorts/${VIDEO}`,
+      `https://www.youtube-nocookie.com/embed/${VIDEO}`,
+      `https://youtu.be/${VIDEO}`,
+    ]) {
+      expect(parseMusicUrl(link)).toEqual({ source: 'youtube', kind: 'track', id: VIDEO });
+    }
+  });
+
+  it('reads youtu.be and watch timestamps from t, start and the fragment', () => {
+    expect(parseMusicUrl(`https://youtu.be/${VIDEO}?t=90`)).toEqual({ source: 'youtube', kind: 'track', id: VIDEO, startTime: 90000 });
+    expect(parseMusicUrl(`https://youtu.be/${VIDEO}?t=1m30s`)).toMatchObject({ startTime: 90000 });
+    expect(parseMusicUrl(`https://www.youtube.com/watch?v=${VIDEO}&t=1h2m3s`)).toMatchObject({ startTime: 3723000 });
+    expect(parseMusicUrl(`https://www.youtube.com/embed/${VIDEO}?start=42`)).toMatchObject({ startTime: 42000 });
+    expect(parseMusicUrl(`https://www.youtube.com/watch?v=${VIDEO}#t=1:30`)).toMatchObject({ startTime: 90000 });
+    expect(parseMusicUrl(`https://youtu.be/${VIDEO}?t=soon`)).not.toHaveProperty('startTime');
+  });
+
+  it('keeps the list a video was opened from and reads list-only links as playlists or albums', () => {
+    expect(parseMusicUrl(`https://www.youtube.com/watch?v=${VIDEO}&list=PLabc123&t=5`)).toEqual({
+      source: 'youtube', kind: 'track', id: VIDEO, playlistId: 'PLabc123', startTime: 5000,
+    });
+    expect(parseMusicUrl(`https://youtu.be/${VIDEO}?list=PLabc123`)).toMatchObject({ playlistId: 'PLabc123' });
+    expect(parseMusicUrl('https://www.youtube.com/playlist?list=PLabc123')).toEqual({ source: 'youtube', kind: 'playlist', id: 'PLabc123' });
+    expect(parseMusicUrl('https://music.youtube.com/playlist?list=OLAK5uy_abc')).toEqual({ source: 'youtube', kind: 'album', id: 'OLAK5uy_abc' });
+  });
+
+  it('reads YouTube channels and albums', () => {
+    expect(parseMusicUrl('https://www.youtube.com/@RickAstleyYT')).toEqual({ source: 'youtube', kind: 'artist', id: '@RickAstleyYT' });
+    expect(parseMusicUrl('https://www.youtube.com/channel/UCuAXFkgsw1L7xaCfnd5JJOw')).toMatchObject({ kind: 'artist' });
+    expect(parseMusicUrl('https://music.youtube.com/browse/MPREb_abc')).toEqual({ source: 'youtube', kind: 'album', id: 'MPREb_abc' });
+  });
+
+  it('reads Spotify links, including intl-xx and embed paths, and spotify: URIs', () => {
+    const expected = { source: 'spotify', kind: 'track', id: SPOTIFY_TRACK };
+
+    expect(parseMusicUrl(`https://open.spotify.com/track/${SPOTIFY_TRACK}?si=abc`)).toEqual(expected);
+    expect(parseMusicUrl(`https://open.spotify.com/intl-de/track/${SPOTIFY_TRACK}`)).toEqual(expected);
+    expect(parseMusicUrl(`https://open.spotify.com/embed/track/${SPOTIFY_TRACK}`)).toEqual(expected);
+    expect(parseMusicUrl(`spotify:track:${SPOTIFY_TRACK}`)).toEqual(expected);
+    expect(parseMusicUrl(`spotify:user:someone:playlist:${SPOTIFY_TRACK}`)).toEqual({ source: 'spotify', kind: 'playlist', id: SPOTIFY_TRACK });
+    expect(parseMusicUrl(`https://open.spotify.com/user/someone/playlist/${SPOTIFY_TRACK}`)).toMatchObject({ kind: 'playlist' });
+    expect(parseMusicUrl(`https://open.spotify.com/album/${SPOTIFY_TRACK}`)).toMatchObject({ kind: 'album' });
+  });
+
+  it('rejects malformed Spotify links', () => {
+    expect(parseMusicUrl('https://open.spotify.com/track/short')).toBeNull();
+    expect(parseMusicUrl(`https://open.spotify.com/show/${SPOTIFY_TRACK}`)).toBeNull();
+    expect(parseMusicUrl('spotify:track')).toBeNull();
+    expect(parseMusicUrl(`spotify:track:${SPOTIFY_TRACK}:extra`)).toBeNull();
+  });
+
+  it('reads SoundCloud tracks, sets, profiles and private share links', () => {
+    expect(parseMusicUrl('https://soundcloud.com/artist/song')).toEqual({ source: 'soundcloud', kind: 'track', id: 'artist/song' });
+    expect(parseMusicUrl('https://soundcloud.com/artist/song/s-AbCdE')).toEqual({ source: 'soundcloud', kind: 'track', id: 'artist/song/s-AbCdE' });
+    expect(parseMusicUrl('https://soundcloud.com/artist/sets/mix')).toEqual({ source: 'soundcloud', kind: 'playlist', id: 'artist/sets/mix' });
+    expect(parseMusicUrl('https://soundcloud.com/artist/likes')).toEqual({ source: 'soundcloud', kind: 'artist', id: 'artist' });
+    expect(parseMusicUrl('https://soundcloud.com/discover/sets/charts')).toBeNull();
+  });
+
+  it('rejects other hosts, look-alike hosts and text that is not a URL', () => {
+    expect(parseMusicUrl(`https://youtube.com.evil.example/watch?v=${VIDEO}`)).toBeNull();
+    expect(parseMusicUrl(`https://notyoutube.com/watch?v=${VIDEO}`)).toBeNull();
+    expect(parseMusicUrl('https://example.com/track/1')).toBeNull();
+    expect(parseMusicUrl(`https://www.youtube.com/watch?v=short`)).toBeNull();
+    expect(parseMusicUrl('never gonna give you up')).toBeNull();
+    expect(parseMusicUrl('')).toBeNull();
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads seconds, unit and clock forms', () => {
+    expect(parseTimestamp('90')).toBe(90000);
+    expect(parseTimestamp('1.5')).toBe(1500);
+    expect(parseTimestamp('2m')).toBe(120000);
+    expect(parseTimestamp('1:02:03')).toBe(3723000);
+    expect(parseTimestamp('1:2:3:4')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
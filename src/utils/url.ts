@@ -0,0 +1,220 @@
+/**
+ * Music URL parsing for YouTube, Spotify and SoundCloud links
+ */
+
+import { ParsedMusicUrl } from '../types';
+
+const YOUTUBE_VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+const YOUTUBE_LIST_ID = /^[A-Za-z0-9_-]{2,}$/;
+const SPOTIFY_ID = /^[A-Za-z0-9]{22}$/;
+const SPOTIFY_KINDS = ['track', 'playlist', 'album', 'artist'];
+
+/**
+ * First path segments of soundcloud.com pages that are not user profiles
+ */
+const SOUNDCLOUD_RESERVED_PATHS = new Set([
+  'charts', 'discover', 'feed', 'jobs', 'messages', 'mobile', 'notifications', 'pages',
+  'people', 'search', 'settings', 'stations', 'stream', 'tags', 'terms-of-use', 'upload', 'you',
+]);
+
+/**
+ * Profile sub-pages that list a user's content rather than a single track
+ */
+const SOUNDCLOUD_PROFILE_PAGES = new Set([
+  'albums', 'comments', 'followers', 'following', 'likes', 'popular-tracks', 'reposts', 'sets', 'spotlight', 'tracks',
+]);
+
+/**
+ * Parses a YouTube, YouTube Music, Spotify or SoundCloud link (or a `spotify:` URI)
+ * into what it points at, or null when the link is not recognized
+ */
+export function parseMusicUrl(input: string): ParsedMusicUrl | null {
+  const value = input.trim();
+  if (value.toLowerCase().startsWith('spotify:')) {
+    return parseSpotifyUri(value);
+  }
+
+  let url: URL;
+  let path: string[];
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    path = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^(?:www|m)\./, '');
+  let result: ParsedMusicUrl | null;
+
+  switch (host) {
+    case 'youtube.com':
+    case 'music.youtube.com':
+    case 'youtube-nocookie.com':
+      result = parseYouTubePath(url, path);
+      break;
+    case 'youtu.be':
+      result = path.length > 0 && YOUTUBE_VIDEO_ID.test(path[0])
+        ? withPlaylist({ source: 'youtube', kind: 'track', id: path[0] }, url)
+        : null;
+      break;
+    case 'open.spotify.com':
+    case 'play.spotify.com':
+      result = parseSpotifyPath(path);
+      break;
+    case 'soundcloud.com':
+      result = parseSoundCloudPath(path);
+      break;
+    default:
+      return null;
+  }
+
+  if (result?.kind === 'track') {
+    const startTime = parseStartTime(url);
+    if (startTime !== undefined) {
+      result.startTime = startTime;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parses a timestamp such as `90`, `90s`, `1m30s`, `1h2m3s`, `1:30` or `1:02:03` into milliseconds
+ */
+export function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim();
+
+  if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/i);
+  if (units && (units[1] || units[2] || units[3])) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = units;
+    return ((parseInt(hours, 10) * 60 + parseInt(minutes, 10)) * 60 + parseInt(seconds, 10)) * 1000;
+  }
+
+  if (/^\d+(?::\d{1,2}){1,2}$/.test(trimmed)) {
+    return trimmed.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0) * 1000;
+  }
+
+  return null;
+}
+
+function parseYouTubePath(url: URL, path: string[]): ParsedMusicUrl | null {
+  const videoId = url.searchParams.get('v');
+  const listId = url.searchParams.get('list');
+
+  if (videoId && YOUTUBE_VIDEO_ID.test(videoId)) {
+    return withPlaylist({ source: 'youtube', kind: 'track', id: videoId }, url);
+  }
+
+  const [first, second] = path;
+  if (['shorts', 'embed', 'v', 'live', 'e'].includes(first) && second && YOUTUBE_VIDEO_ID.test(second)) {
+    return withPlaylist({ source: 'youtube', kind: 'track', id: second }, url);
+  }
+
+  if (listId && YOUTUBE_LIST_ID.test(listId)) {
+    // YouTube Music album pages are backed by auto-generated OLAK5uy_ playlists
+    return { source: 'youtube', kind: listId.startsWith('OLAK5uy_') ? 'album' : 'playlist', id: listId };
+  }
+
+  if (first === 'browse' && second?.startsWith('MPREb_')) {
+    return { source: 'youtube', kind: 'album', id: second };
+  }
+  if (first === 'channel' && second) {
+    return { source: 'youtube', kind: 'artist', id: second };
+  }
+  if ((first === 'c' || first === 'user') && second) {
+    return { source: 'youtube', kind: 'artist', id: second };
+  }
+  if (first?.startsWith('@') && first.length > 1) {
+    return { source: 'youtube', kind: 'artist', id: first };
+  }
+
+  return null;
+}
+
+function withPlaylist(
+  result: { source: 'youtube'; kind: 'track'; id: string },
+  url: URL
+): ParsedMusicUrl {
+  const listId = url.searchParams.get('list');
+  return listId && YOUTUBE_LIST_ID.test(listId) ? { ...result, playlistId: listId } : result;
+}
+
+function parseSpotifyPath(path: string[]): ParsedMusicUrl | null {
+  let segments = path;
+  if (segments[0]?.startsWith('intl-')) {
+    segments = segments.slice(1);
+  }
+  if (segments[0] === 'embed') {
+    segments = segments.slice(1);
+  }
+  // Legacy playlist links: /user/<name>/playlist/<id>
+  if (segments[0] === 'user' && segments[2] === 'playlist') {
+    segments = segments.slice(2);
+  }
+
+  return spotifyResult(segments[0], segments[1]);
+}
+
+function parseSpotifyUri(uri: string): ParsedMusicUrl | null {
+  // spotify:<kind>:<id>, or the legacy spotify:user:<name>:playlist:<id>
+  const parts = uri.split(':');
+  if (parts[1] === 'user' && parts.length === 5) {
+    return spotifyResult(parts[3], parts[4]);
+  }
+  return parts.length === 3 ? spotifyResult(parts[1], parts[2]) : null;
+}
+
+function spotifyResult(kind: string | undefined, id: string | undefined): ParsedMusicUrl | null {
+  if (!kind || !id || !SPOTIFY_KINDS.includes(kind) || !SPOTIFY_ID.test(id)) {
+    return null;
+  }
+  return { source: 'spotify', kind, id } as ParsedMusicUrl;
+}
+
+function parseSoundCloudPath(path: string[]): ParsedMusicUrl | null {
+  const [user, second, third] = path;
+  if (!user || SOUNDCLOUD_RESERVED_PATHS.has(user)) {
+    return null;
+  }
+
+  if (second === 'sets' && third) {
+    return { source: 'soundcloud', kind: 'playlist', id: `${user}/sets/${third}` };
+  }
+  if (!second || SOUNDCLOUD_PROFILE_PAGES.has(second)) {
+    return { source: 'soundcloud', kind: 'artist', id: user };
+  }
+  // Private share links carry a secret token as a third segment
+  if (third && !third.startsWith('s-')) {
+    return null;
+  }
+
+  return { source: 'soundcloud', kind: 'track', id: path.slice(0, third ? 3 : 2).join('/') };
+}
+
+/**
+ * Reads the start time of a shared link from `t=`/`start=` query parameters or a `#t=` fragment
+ */
+function parseStartTime(url: URL): number | undefined {
+  const hash = new URLSearchParams(url.hash.replace(/^#/, ''));
+  const candidates = [
+    url.searchParams.get('t'),
+    url.searchParams.get('start'),
+    url.searchParams.get('time_continue'),
+    hash.get('t'),
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate) {
+      const milliseconds = parseTimestamp(candidate);
+      if (milliseconds !== null) {
+        return milliseconds;
+      }
+    }
+  }
+
+  return undefined;
+}